@@ -0,0 +1,571 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Project, SourceFile } from 'ts-morph';
+import * as utils from './utils';
+import * as parse from './parse';
+import * as functions from './functions';
+import * as commands from './commands';
+import * as cache from './cache';
+import * as panel from './panel';
+import * as text from './text';
+import * as sfc from './sfc';
+
+const { log } = utils.getLog('btch');
+
+/**
+ * A function to convert, identified as the nth function with its name in
+ * the file, so it can be found again after earlier conversions rewrite
+ * the file
+ */
+export interface BatchTarget {
+  filePath: string;
+  fnName: string;
+  index: number;
+  /** Location and text before any conversion, for the review */
+  start: number;
+  end: number;
+  line: number;
+  before: string;
+}
+
+interface PlannedFunction {
+  target: BatchTarget;
+  skipReason?: string;
+  convertedCalls: number;
+  /** Calls that need review or can't be rebuilt, which skip the function */
+  unconvertedCalls: parse.CallCandidate[];
+  after?: string;
+}
+
+interface BatchPlan {
+  functions: PlannedFunction[];
+  originalTexts: Map<string, string>;
+  updatedTexts: Map<string, string>;
+}
+
+function isOverloadSignature(func: any): boolean {
+  return typeof func.isOverload === 'function' && func.isOverload();
+}
+
+function getNamedFunctions(
+  sourceFile: SourceFile
+): { func: any; varDecl: any | null; fnName: string }[] {
+  return functions
+    .getFunctionNodes(sourceFile)
+    .filter(({ func }) => !isOverloadSignature(func))
+    .map(({ func, varDecl }) => ({
+      func,
+      varDecl,
+      fnName: functions.getFunctionName(func, varDecl) || '',
+    }))
+    .filter(({ fnName }) => fnName);
+}
+
+function createTarget(
+  sourceFile: SourceFile,
+  filePath: string,
+  func: any
+): BatchTarget | null {
+  const named = getNamedFunctions(sourceFile);
+  const entry = named.find((e) => e.func === func);
+  if (!entry) {
+    return null;
+  }
+  const start = func.getStart();
+  return {
+    filePath,
+    fnName: entry.fnName,
+    index: named.filter((e) => e.fnName === entry.fnName).indexOf(entry),
+    start,
+    end: func.getEnd(),
+    line: sourceFile.getLineAndColumnAtPos(start).line,
+    before: func.getText(),
+  };
+}
+
+function findTarget(
+  project: Project,
+  target: BatchTarget
+): functions.FunctionDetectionResult | null {
+  const sourceFile = sfc.getSourceFile(project, target.filePath);
+  if (!sourceFile) {
+    return null;
+  }
+  const entry = getNamedFunctions(sourceFile).filter(
+    (e) => e.fnName === target.fnName
+  )[target.index];
+  return entry
+    ? {
+        targetFunction: entry.func,
+        targetVariableDeclaration: entry.varDecl,
+        params: entry.func.getParameters(),
+        fnName: entry.fnName,
+      }
+    : null;
+}
+
+function readFileText(filePath: string): string {
+  const doc = vscode.workspace.textDocuments.find(
+    (d) => path.normalize(d.uri.fsPath) === path.normalize(filePath)
+  );
+  return doc ? doc.getText() : fs.readFileSync(filePath, 'utf8');
+}
+
+/** Apply non-overlapping edits; an edit overlapping a later one is dropped */
+function applyEdits(
+  originalText: string,
+  edits: text.TextEdit[]
+): { text: string; dropped: text.TextEdit[] } {
+  const sorted = [...edits].sort((a, b) => b.start - a.start);
+  const dropped: text.TextEdit[] = [];
+  let result = originalText;
+  let limit = originalText.length;
+  for (const edit of sorted) {
+    if (edit.end > limit) {
+      dropped.push(edit);
+      continue;
+    }
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+    limit = edit.start;
+  }
+  return { text: result, dropped };
+}
+
+/**
+ * Convert each target in turn inside the project, so a function converted
+ * later sees the calls that earlier conversions rewrote in its body.
+ * A function is skipped when any of its calls or edits would be left
+ * unconverted. The project is restored afterwards;
+ * the result is the final text of every changed file.
+ */
+export async function planBatch(
+  project: Project,
+  workspaceRoot: string,
+  folderRoots: string[],
+  targets: BatchTarget[],
+  settings: commands.ConversionSettings
+): Promise<BatchPlan> {
+  const originalTexts = new Map<string, string>();
+  // Vue and Svelte files are not in the project; only their scripts are
+  const otherTexts = new Map<string, string>();
+  const getText = (fp: string): string => {
+    const sf = project.getSourceFile(fp);
+    if (sf) return sf.getFullText();
+    if (!otherTexts.has(fp)) otherTexts.set(fp, readFileText(fp));
+    return otherTexts.get(fp) as string;
+  };
+  const setText = (fp: string, newText: string): void => {
+    if (!originalTexts.has(fp)) originalTexts.set(fp, getText(fp));
+    const sf = project.getSourceFile(fp);
+    if (sf) {
+      sf.replaceWithText(newText);
+    } else {
+      otherTexts.set(fp, newText);
+      if (sfc.isComponentFile(fp)) {
+        sfc.syncScriptSourceFile(project, fp, newText);
+      }
+    }
+  };
+
+  const planned: PlannedFunction[] = [];
+  try {
+    for (const target of targets) {
+      const result: PlannedFunction = {
+        target,
+        convertedCalls: 0,
+        unconvertedCalls: [],
+      };
+      planned.push(result);
+
+      const functionResult = findTarget(project, target);
+      const sourceFile = sfc.getSourceFile(project, target.filePath);
+      if (!functionResult || !sourceFile) {
+        result.skipReason = 'Not found after earlier conversions.';
+        continue;
+      }
+      const { targetFunction, params } = functionResult;
+      const validationError = functions.getValidationError(
+        targetFunction,
+        params,
+        commands.canConvertParameterProperties(
+          sourceFile,
+          targetFunction,
+          settings
+        )
+      );
+      if (validationError) {
+        result.skipReason = validationError;
+        continue;
+      }
+      if (params.some((p: any) => p.isRestParameter())) {
+        result.skipReason =
+          'Rest parameters need the function body updated by hand; convert it on its own.';
+        continue;
+      }
+
+      const plan = await commands.planConversion(
+        project,
+        workspaceRoot,
+        folderRoots,
+        sourceFile,
+        target.filePath,
+        functionResult,
+        settings
+      );
+      if ('skipReason' in plan) {
+        result.skipReason = plan.skipReason || 'Cancelled.';
+        continue;
+      }
+
+      const editsByFile = new Map<string, text.TextEdit[]>();
+      const addEdit = (fp: string, edit: text.TextEdit): void => {
+        editsByFile.set(fp, [...(editsByFile.get(fp) || []), edit]);
+      };
+      const { internal, external } = plan.splitCalls(plan.confirmed);
+      addEdit(target.filePath, plan.buildFunctionEdit(internal));
+      if (plan.typeDeclarationEdit) {
+        addEdit(target.filePath, plan.typeDeclarationEdit);
+      }
+      result.convertedCalls = internal.length;
+      for (const c of external) {
+        const callEdit = plan.planCall(c);
+        if (callEdit) {
+          addEdit(c.filePath, callEdit);
+          result.convertedCalls++;
+        } else {
+          result.unconvertedCalls.push(c);
+        }
+      }
+      const confirmedKeys = new Set(
+        plan.confirmed.map((c) => `${c.filePath}:${c.start}:${c.end}`)
+      );
+      result.unconvertedCalls.push(
+        ...plan.fuzzy.filter(
+          (c) => !confirmedKeys.has(`${c.filePath}:${c.start}:${c.end}`)
+        )
+      );
+      // Converting the function would leave these calls positional
+      if (result.unconvertedCalls.length) {
+        result.skipReason = describeUnconvertedCalls(result.unconvertedCalls);
+        continue;
+      }
+
+      // Nothing is changed unless every edit of the function applies
+      const updated = new Map<string, string>();
+      let droppedCount = 0;
+      for (const [fp, edits] of editsByFile) {
+        const applied = applyEdits(getText(fp), edits);
+        droppedCount += applied.dropped.length;
+        updated.set(fp, applied.text);
+      }
+      if (droppedCount) {
+        log('overlapping edits in', target.fnName, droppedCount);
+        result.skipReason = `${droppedCount} edit(s) overlap other edits of this function; convert it on its own.`;
+        continue;
+      }
+      for (const [fp, updatedText] of updated) {
+        setText(fp, updatedText);
+      }
+    }
+
+    for (const result of planned) {
+      if (!result.skipReason) {
+        result.after = findTarget(project, result.target)?.targetFunction.getText();
+      }
+    }
+    const updatedTexts = new Map<string, string>();
+    for (const fp of originalTexts.keys()) {
+      updatedTexts.set(fp, getText(fp));
+    }
+    return { functions: planned, originalTexts, updatedTexts };
+  } finally {
+    for (const [fp, originalText] of originalTexts) {
+      if (sfc.isComponentFile(fp)) {
+        sfc.syncScriptSourceFile(project, fp, originalText);
+      } else {
+        project.getSourceFile(fp)?.replaceWithText(originalText);
+      }
+    }
+  }
+}
+
+function describeUnconvertedCalls(calls: parse.CallCandidate[]): string {
+  const locations = calls
+    .slice(0, 3)
+    .map((c) => vscode.workspace.asRelativePath(c.filePath))
+    .join(', ');
+  return (
+    `${calls.length} call(s) need review (${locations}${calls.length > 3 ? ', …' : ''});` +
+    ' convert this function on its own to review them.'
+  );
+}
+
+function describePlannedFunction(result: PlannedFunction): string {
+  return result.skipReason
+    ? `Skipped: ${result.skipReason}`
+    : `${result.convertedCalls} call(s) converted.`;
+}
+
+/** Ids of the functions to convert, or null when cancelled */
+async function reviewBatch(plan: BatchPlan): Promise<Set<number> | null> {
+  const cfg = vscode.workspace.getConfiguration('objectifyParams');
+  // Skipped functions, including those with calls that need review, can't
+  // be selected
+  const defaults = new Set(
+    plan.functions
+      .map((result, i) => (result.skipReason ? -1 : i))
+      .filter((i) => i >= 0)
+  );
+
+  if ((cfg.get('10.reviewMode') as string) === 'dialogs') {
+    const needReview = plan.functions.filter(
+      (r) => r.unconvertedCalls.length
+    ).length;
+    const skipped =
+      plan.functions.filter((r) => r.skipReason).length - needReview;
+    const choice = await vscode.window.showInformationMessage(
+      `Objectify Params\n\nConvert ${defaults.size} function(s)?` +
+        (needReview
+          ? `\n\n${needReview} function(s) with calls that need review will not be converted.`
+          : '') +
+        (skipped ? `\n\n${skipped} function(s) cannot be converted.` : ''),
+      { modal: true },
+      'Convert'
+    );
+    return choice === 'Convert' ? defaults : null;
+  }
+
+  const items: panel.ReviewItem[] = plan.functions.map((result, id) => ({
+    id,
+    kind: result.skipReason ? 'fuzzy' : 'confirmed',
+    filePath: result.target.filePath,
+    file: `${vscode.workspace.asRelativePath(result.target.filePath)} — ${result.target.fnName}`,
+    line: result.target.line,
+    start: result.target.start,
+    end: result.target.end,
+    before: result.target.before,
+    after: result.skipReason ? null : result.after ?? null,
+    reason: describePlannedFunction(result),
+    convert: defaults.has(id),
+  }));
+  return panel.showReviewPanel({
+    functionName: `${plan.functions.length} function(s)`,
+    itemLabel: 'function(s)',
+    items,
+  });
+}
+
+/** Functions at every cursor, or those over the parameter threshold in the files */
+function collectTargets(
+  project: Project,
+  editor: vscode.TextEditor | undefined,
+  filePaths: string[]
+): BatchTarget[] {
+  const targets: BatchTarget[] = [];
+  const seen = new Set<string>();
+  const addTarget = (sourceFile: SourceFile, func: any): void => {
+    const sourceFilePath = sourceFile.getFilePath();
+    const target = createTarget(
+      sourceFile,
+      path.normalize(sfc.getComponentPath(sourceFilePath) ?? sourceFilePath),
+      func
+    );
+    const key = target && `${target.filePath}#${target.fnName}#${target.index}`;
+    if (target && key && !seen.has(key)) {
+      seen.add(key);
+      targets.push(target);
+    }
+  };
+
+  if (editor && editor.selections.length > 1) {
+    const sourceFile = sfc.getSourceFile(project, editor.document.fileName);
+    if (!sourceFile) return targets;
+    for (const selection of editor.selections) {
+      const functionResult = functions.findTargetFunction(
+        sourceFile,
+        editor.document.offsetAt(selection.active),
+        (message) => log('cursor skipped:', message)
+      );
+      if (functionResult) {
+        addTarget(sourceFile, functionResult.targetFunction);
+      }
+    }
+    return targets;
+  }
+
+  for (const filePath of filePaths) {
+    const sourceFile = sfc.getSourceFile(project, filePath);
+    if (!sourceFile) continue;
+    const maxParams = utils.getMaxParams(filePath);
+    for (const { func } of getNamedFunctions(sourceFile)) {
+      if (func.getParameters().length > maxParams) {
+        addTarget(sourceFile, func);
+      }
+    }
+  }
+  return targets;
+}
+
+/** Project source files under the selected Explorer files and folders */
+function getSelectedFiles(project: Project, selected: string[]): string[] {
+  return project
+    .getSourceFiles()
+    .map((sf) => {
+      const fp = sf.getFilePath();
+      return path.normalize(sfc.getComponentPath(fp) ?? fp);
+    })
+    .filter(
+      (fp) =>
+        !fp.endsWith('.d.ts') &&
+        !fp.split(path.sep).includes('node_modules') &&
+        selected.some((s) => {
+          const relative = path.relative(s, fp);
+          return relative === '' || !relative.startsWith('..');
+        })
+    );
+}
+
+/**
+ * Convert several functions as one edit: the functions at every cursor,
+ * or every function over the maxParams threshold in the active file or
+ * the files and folders selected in the Explorer
+ */
+export async function batchCommandHandler(
+  uri?: unknown,
+  uris?: unknown
+): Promise<void> {
+  // The Explorer passes the clicked resource and every selected one
+  const explorerPaths = (Array.isArray(uris) ? uris : [uri])
+    .filter((u): u is vscode.Uri => u instanceof vscode.Uri)
+    .map((u) => path.normalize(u.fsPath));
+  const editor = explorerPaths.length
+    ? undefined
+    : vscode.window.activeTextEditor;
+  const scopePath = explorerPaths[0] ?? editor?.document.fileName;
+  if (!scopePath) {
+    void vscode.window.showErrorMessage('No editor file open.');
+    return;
+  }
+  const containingFolder = vscode.workspace.getWorkspaceFolder(
+    vscode.Uri.file(scopePath)
+  );
+  if (!containingFolder) {
+    void vscode.window.showErrorMessage('No workspace folder open.');
+    return;
+  }
+  const workspaceRoot = containingFolder.uri.fsPath;
+
+  const settings = commands.getConversionSettings();
+  if (!settings) {
+    return;
+  }
+  const folderRoots = await utils.selectWorkspaceFolders(workspaceRoot);
+  if (!folderRoots) {
+    return;
+  }
+
+  try {
+    // The nearest project config is looked up from the file's directory
+    const configProbe =
+      fs.existsSync(scopePath) && fs.statSync(scopePath).isDirectory()
+        ? path.join(scopePath, 'index.ts')
+        : scopePath;
+    const project = await cache.getProject(
+      workspaceRoot,
+      configProbe,
+      folderRoots
+    );
+    const filePaths = explorerPaths.length
+      ? getSelectedFiles(project, explorerPaths)
+      : [path.normalize(scopePath)];
+    const targets = collectTargets(project, editor, filePaths);
+    if (!targets.length) {
+      void vscode.window.showInformationMessage(
+        editor && editor.selections.length > 1
+          ? 'Objectify Params: No named functions with parameters at the cursors.'
+          : `Objectify Params: No functions with more than ${utils.getMaxParams(scopePath)} parameters found.`
+      );
+      return;
+    }
+    log('batch targets:', targets.map((t) => t.fnName).join(', '));
+
+    const planAll = (batchTargets: BatchTarget[]): Thenable<BatchPlan> =>
+      vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Objectify Params: Planning ${batchTargets.length} function(s)`,
+        },
+        () =>
+          planBatch(project, workspaceRoot, folderRoots, batchTargets, settings)
+      );
+
+    let plan = await planAll(targets);
+    const selectedIds = await reviewBatch(plan);
+    if (!selectedIds) {
+      void vscode.window.showInformationMessage(
+        'Objectify Params: Operation cancelled — no changes made.'
+      );
+      return;
+    }
+    const selected = plan.functions.filter(
+      (r, i) => selectedIds.has(i) && !r.skipReason
+    );
+    if (!selected.length) {
+      void vscode.window.showInformationMessage(
+        'Objectify Params: No functions selected — no changes made.'
+      );
+      return;
+    }
+    // The plan converted every function it could; plan again without the
+    // ones that were unchecked
+    if (
+      selected.length !== plan.functions.filter((r) => !r.skipReason).length
+    ) {
+      plan = await planAll(selected.map((r) => r.target));
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const [fp, updatedText] of plan.updatedTexts) {
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(fp));
+      if (doc.getText() !== plan.originalTexts.get(fp)) {
+        void vscode.window.showErrorMessage(
+          `Objectify Params: "${vscode.workspace.asRelativePath(fp)}" changed while planning — no changes made.`
+        );
+        return;
+      }
+      const minimal = text.buildMinimalEdit(doc.getText(), updatedText);
+      if (minimal) {
+        edit.replace(
+          doc.uri,
+          new vscode.Range(
+            doc.positionAt(minimal.start),
+            doc.positionAt(minimal.end)
+          ),
+          minimal.newText
+        );
+      }
+    }
+    const ok = await vscode.workspace.applyEdit(edit);
+    log('applyEdit(batch) result:', ok);
+    if (!ok) {
+      void vscode.window.showErrorMessage(
+        'Objectify Params: Could not apply the batch edit — no changes made.'
+      );
+      return;
+    }
+
+    const converted = plan.functions.filter((r) => !r.skipReason);
+    const callCount = converted.reduce((n, r) => n + r.convertedCalls, 0);
+    void vscode.window.showInformationMessage(
+      `Objectify Params: Converted ${converted.length} function(s) and ${callCount} call(s)${utils.summarizeByFolder(
+        converted.map((r) => r.target.filePath)
+      )}.`
+    );
+  } catch (err) {
+    console.error(err);
+    void vscode.window.showErrorMessage(
+      'An error occurred: ' + (err.message || err)
+    );
+  }
+}
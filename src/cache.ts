@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Project } from 'ts-morph';
+import * as utils from './utils';
+import * as parse from './parse';
+import * as sfc from './sfc';
+
+const { log } = utils.getLog('cach');
+
+const SOURCE_GLOB = '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs,vue,svelte}';
+const PROJECT_CONFIG_GLOB = '**/{tsconfig,jsconfig}*.json';
+const SOURCE_EXTENSIONS = new Set([
+  '.ts',
+  '.tsx',
+  '.mts',
+  '.cts',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  ...sfc.COMPONENT_EXTENSIONS,
+]);
+
+interface CachedProject {
+  key: string;
+  project: Project;
+  folderRoots: string[];
+}
+
+let cached: CachedProject | null = null;
+
+// Files changed on disk or in an editor since the project last saw them
+const changedFiles = new Set<string>();
+const createdFiles = new Set<string>();
+
+function isSourceFile(fsPath: string): boolean {
+  return SOURCE_EXTENSIONS.has(path.extname(fsPath).toLowerCase());
+}
+
+/** The project is rebuilt whenever this changes */
+function getCacheKey(
+  workspaceRoot: string,
+  filePath: string,
+  folderRoots: string[]
+): string {
+  return JSON.stringify({
+    configPath: parse.findProjectConfig(workspaceRoot, filePath),
+    folderRoots,
+  });
+}
+
+export function invalidate(reason: string): void {
+  if (cached) {
+    log('project cache invalidated:', reason);
+  }
+  cached = null;
+  changedFiles.clear();
+  createdFiles.clear();
+}
+
+function isInScannedFolder(entry: CachedProject, fsPath: string): boolean {
+  const folderRoot = entry.folderRoots.find(
+    (root) => !path.relative(root, fsPath).startsWith('..')
+  );
+  if (!folderRoot) return false;
+  return !utils.matchesGlobs(
+    fsPath,
+    folderRoot,
+    utils.getFolderGlobs(folderRoot).excludePatterns
+  );
+}
+
+/** Reload the virtual source file of a component's script blocks */
+function refreshComponent(
+  project: Project,
+  fsPath: string,
+  doc: vscode.TextDocument | undefined
+): void {
+  try {
+    const fileText =
+      doc && !doc.isClosed
+        ? doc.getText()
+        : fs.existsSync(fsPath)
+          ? fs.readFileSync(fsPath, 'utf8')
+          : null;
+    sfc.syncScriptSourceFile(project, fsPath, fileText);
+  } catch (e) {
+    log('error refreshing', fsPath, e);
+  }
+}
+
+/**
+ * Bring changed files up to date. Open documents are read from the editor,
+ * since conversions leave edited files unsaved.
+ */
+function refreshChangedFiles(entry: CachedProject): void {
+  const { project } = entry;
+  const openDocs = new Map(
+    vscode.workspace.textDocuments.map((d) => [path.normalize(d.uri.fsPath), d])
+  );
+
+  for (const fsPath of createdFiles) {
+    if (sfc.isComponentFile(fsPath)) {
+      changedFiles.add(fsPath);
+    } else if (
+      !project.getSourceFile(fsPath) &&
+      isInScannedFolder(entry, fsPath)
+    ) {
+      project.addSourceFileAtPathIfExists(fsPath);
+    }
+  }
+  createdFiles.clear();
+
+  let refreshed = 0;
+  for (const fsPath of changedFiles) {
+    if (sfc.isComponentFile(fsPath)) {
+      if (isInScannedFolder(entry, fsPath)) {
+        refreshComponent(project, fsPath, openDocs.get(fsPath));
+      }
+      continue;
+    }
+    const sourceFile = project.getSourceFile(fsPath);
+    if (!sourceFile) continue;
+    const doc = openDocs.get(fsPath);
+    try {
+      if (doc && !doc.isClosed) {
+        if (sourceFile.getFullText() !== doc.getText()) {
+          sourceFile.replaceWithText(doc.getText());
+          refreshed++;
+        }
+      } else if (fs.existsSync(fsPath)) {
+        sourceFile.refreshFromFileSystemSync();
+        refreshed++;
+      } else {
+        project.removeSourceFile(sourceFile);
+        refreshed++;
+      }
+    } catch (e) {
+      log('error refreshing', fsPath, e);
+    }
+  }
+  changedFiles.clear();
+  if (refreshed) {
+    log('refreshed', refreshed, 'changed file(s) in cached project');
+  }
+}
+
+/**
+ * Project for the file, reused between runs while the settings, project
+ * configs and scanned folders stay the same
+ */
+export async function getProject(
+  workspaceRoot: string,
+  filePath: string,
+  folderRoots: string[]
+): Promise<Project> {
+  const key = getCacheKey(workspaceRoot, filePath, folderRoots);
+  if (cached && cached.key === key) {
+    refreshChangedFiles(cached);
+    return cached.project;
+  }
+
+  invalidate('project inputs changed');
+  const project = await parse.createProjectFromConfig(
+    workspaceRoot,
+    filePath,
+    folderRoots
+  );
+  cached = { key, project, folderRoots };
+
+  // Unsaved edits made before the project was built
+  for (const doc of vscode.workspace.textDocuments) {
+    if (doc.isDirty) {
+      changedFiles.add(path.normalize(doc.uri.fsPath));
+    }
+  }
+  refreshChangedFiles(cached);
+  return project;
+}
+
+/**
+ * Watch files, documents and settings to keep the cached project current
+ */
+export function registerWatchers(): vscode.Disposable[] {
+  const markChanged = (uri: vscode.Uri): void => {
+    if (cached && uri.scheme === 'file' && isSourceFile(uri.fsPath)) {
+      changedFiles.add(path.normalize(uri.fsPath));
+    }
+  };
+
+  const sourceWatcher = vscode.workspace.createFileSystemWatcher(SOURCE_GLOB);
+  const configWatcher =
+    vscode.workspace.createFileSystemWatcher(PROJECT_CONFIG_GLOB);
+
+  return [
+    sourceWatcher,
+    configWatcher,
+    sourceWatcher.onDidChange(markChanged),
+    sourceWatcher.onDidDelete(markChanged),
+    sourceWatcher.onDidCreate((uri) => {
+      if (cached) {
+        createdFiles.add(path.normalize(uri.fsPath));
+      }
+    }),
+    configWatcher.onDidChange(() => invalidate('project config changed')),
+    configWatcher.onDidCreate(() => invalidate('project config created')),
+    configWatcher.onDidDelete(() => invalidate('project config deleted')),
+    vscode.workspace.onDidChangeTextDocument((e) => markChanged(e.document.uri)),
+    // Closing without saving reverts to the file on disk
+    vscode.workspace.onDidCloseTextDocument((doc) => markChanged(doc.uri)),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration('objectifyParams.5.exclude') ||
+        e.affectsConfiguration('objectifyParams.6.include') ||
+        e.affectsConfiguration('objectifyParams.9.workspaceFolders')
+      ) {
+        invalidate('include/exclude settings changed');
+      }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() =>
+      invalidate('workspace folders changed')
+    ),
+  ];
+}
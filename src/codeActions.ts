@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { SyntaxKind } from 'ts-morph';
+import * as diagnostics from './diagnostics';
+import * as functions from './functions';
+import * as parse from './parse';
+import * as utils from './utils';
+
+const { log } = utils.getLog('actn');
+
+const DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+  { language: 'typescript' },
+  { language: 'typescriptreact' },
+  { language: 'javascript' },
+  { language: 'javascriptreact' },
+];
+
+/** "Objectify Params" in the lightbulb, disabled with the reason when not convertible */
+function getRewriteAction(
+  document: vscode.TextDocument,
+  range: vscode.Range | vscode.Selection
+): vscode.CodeAction | null {
+  const sourceFile = parse.getSyntaxSourceFile(document);
+  let rejectReason: string | null = null;
+  const functionResult = functions.findTargetFunction(
+    sourceFile,
+    document.offsetAt(range.start),
+    (message) => {
+      rejectReason = message;
+    }
+  );
+  // Only functions with parameters are offered; anonymous ones are disabled
+  if (!functionResult && rejectReason !== functions.ANONYMOUS_FUNCTION_MESSAGE) {
+    return null;
+  }
+
+  const action = new vscode.CodeAction(
+    'Objectify Params',
+    vscode.CodeActionKind.RefactorRewrite
+  );
+  action.command = {
+    command: 'objectifyParams.convert',
+    title: 'Objectify Params',
+    arguments: [document.uri, range.start],
+  };
+
+  if (functionResult) {
+    const { targetFunction, params } = functionResult;
+    const isTypeScriptFile = /\.(ts|tsx|mts|cts)$/.test(document.fileName);
+    const convertParameterProperties =
+      targetFunction.getKind?.() === SyntaxKind.Constructor &&
+      isTypeScriptFile &&
+      Boolean(
+        vscode.workspace
+          .getConfiguration('objectifyParams')
+          .get('7.convertParameterProperties')
+      );
+    rejectReason = functions.getValidationError(
+      targetFunction,
+      params,
+      convertParameterProperties
+    );
+  }
+  if (rejectReason) {
+    action.disabled = { reason: rejectReason };
+  }
+  return action;
+}
+
+/** Quick fixes for long parameter list diagnostics, converting the flagged function */
+function getQuickFixes(
+  document: vscode.TextDocument,
+  context: vscode.CodeActionContext
+): vscode.CodeAction[] {
+  return context.diagnostics
+    .filter(
+      (d) =>
+        d.source === diagnostics.DIAGNOSTIC_SOURCE &&
+        d.code === diagnostics.LONG_PARAM_LIST_CODE
+    )
+    .map((d) => {
+      const fix = new vscode.CodeAction(
+        'Objectify Params: Convert to an object parameter',
+        vscode.CodeActionKind.QuickFix
+      );
+      fix.diagnostics = [d];
+      fix.isPreferred = true;
+      fix.command = {
+        command: 'objectifyParams.convert',
+        title: 'Objectify Params',
+        arguments: [document.uri, d.range.start],
+      };
+      return fix;
+    });
+}
+
+function provideCodeActions(
+  document: vscode.TextDocument,
+  range: vscode.Range | vscode.Selection,
+  context: vscode.CodeActionContext
+): vscode.CodeAction[] {
+  const rewrite = getRewriteAction(document, range);
+  return [...getQuickFixes(document, context), ...(rewrite ? [rewrite] : [])];
+}
+
+export function registerCodeActionProvider(): vscode.Disposable {
+  log('registering code action provider');
+  return vscode.languages.registerCodeActionsProvider(
+    DOCUMENT_SELECTOR,
+    { provideCodeActions },
+    {
+      providedCodeActionKinds: [
+        vscode.CodeActionKind.RefactorRewrite,
+        vscode.CodeActionKind.QuickFix,
+      ],
+    }
+  );
+}
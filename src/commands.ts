@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { SyntaxKind } from 'ts-morph';
+import { Node, Project, SourceFile, SyntaxKind } from 'ts-morph';
 import glob from 'glob';
 import * as fs from 'fs';
 import * as utils from './utils';
@@ -8,6 +8,9 @@ import * as parse from './parse';
 import * as functions from './functions';
 import * as text from './text';
 import * as dialogs from './dialogs';
+import * as cache from './cache';
+import * as panel from './panel';
+import * as sfc from './sfc';
 
 const { log } = utils.getLog('cmds');
 
@@ -45,6 +48,52 @@ function splitInternalCalls(
   return { internal, external };
 }
 
+/**
+ * Review panel rows for the confirmed calls, then the fuzzy ones. Ids are
+ * positions in that order; confirmed calls start ticked and declarations
+ * of the same method family cannot be unticked.
+ */
+async function buildReviewItems(
+  confirmed: any[],
+  fuzzy: any[],
+  paramNames: string[],
+  planCall: (c: any) => text.TextEdit | null,
+  getDoc: (fp: string) => Promise<vscode.TextDocument>
+): Promise<panel.ReviewItem[]> {
+  const items: panel.ReviewItem[] = [];
+  for (const c of [...confirmed, ...fuzzy]) {
+    const doc = await getDoc(c.filePath);
+    const planned = planCall(c);
+    const start = planned ? planned.start : c.start ?? 0;
+    const end = planned ? planned.end : c.end ?? start;
+    const isFuzzy = !confirmed.includes(c);
+    items.push({
+      id: items.length,
+      kind: isFuzzy ? 'fuzzy' : 'confirmed',
+      filePath: c.filePath,
+      file: vscode.workspace.asRelativePath(c.filePath),
+      line: doc.positionAt(start).line + 1,
+      start,
+      end,
+      before: doc.getText().slice(start, end),
+      after: planned ? planned.newText : null,
+      reason: isFuzzy ? dialogs.describeFuzzyCall(c, paramNames) : undefined,
+      convert: !isFuzzy,
+      required: c.callForm === 'declaration',
+      group: c.group,
+    });
+  }
+  return items;
+}
+
+/** Indentation of the line a node starts on */
+function getLineIndent(node: any): string {
+  const fullText = node.getSourceFile().getFullText();
+  const start = node.getStart();
+  const lineStart = fullText.lastIndexOf('\n', start - 1) + 1;
+  return /^[ \t]*/.exec(fullText.slice(lineStart, start))![0];
+}
+
 function isLexicallyNestedFunction(targetFunction: any): boolean {
   if (!targetFunction || typeof targetFunction.getParent !== 'function') {
     return false;
@@ -72,7 +121,11 @@ function applyInternalCallReplacements(
   originalFnText: string,
   internalCalls: any[],
   targetStart: number,
-  buildReplacement: (exprText: string, argsTextArr: string[] | null) => string
+  buildReplacement: (
+    exprText: string,
+    argsTextArr: string[] | null,
+    call?: any
+  ) => string
 ): string {
   if (!internalCalls.length) {
     return originalFnText;
@@ -100,7 +153,11 @@ function applyInternalCallReplacements(
       );
       continue;
     }
-    const replacement = buildReplacement(call.exprText, call.argsText || []);
+    const replacement = buildReplacement(
+      call.exprText,
+      call.argsText || [],
+      call
+    );
     updated =
       updated.slice(0, relativeStart) +
       replacement +
@@ -109,17 +166,38 @@ function applyInternalCallReplacements(
   return updated;
 }
 
-function detectObjectVariableDestructure(targetFunction: any): boolean {
+function hasObjectParamDestructuring(params: any[]): boolean {
+  return (
+    params.length === 1 &&
+    params[0].getStructure &&
+    (() => {
+      try {
+        const paramText = params[0].getText();
+        return paramText.trim().startsWith('{');
+      } catch {
+        return false;
+      }
+    })()
+  );
+}
+
+/**
+ * Find the "let { ... } = objectVar;" statement that destructures the
+ * single object parameter inside the function body
+ */
+function findObjectVariableDestructure(
+  targetFunction: any
+): { statement: any; declaration: any; paramName: string } | null {
   try {
     const params = targetFunction.getParameters
       ? targetFunction.getParameters()
       : [];
     if (!params || params.length !== 1) {
-      return false;
+      return null;
     }
     const paramName = params[0].getName ? params[0].getName() : null;
     if (!paramName) {
-      return false;
+      return null;
     }
     const isParamDestructured = (() => {
       try {
@@ -130,11 +208,11 @@ function detectObjectVariableDestructure(targetFunction: any): boolean {
       }
     })();
     if (isParamDestructured) {
-      return false;
+      return null;
     }
     const body = targetFunction.getBody ? targetFunction.getBody() : null;
     if (!body || typeof body.getStatements !== 'function') {
-      return false;
+      return null;
     }
     const statements = body.getStatements();
     for (const stmt of statements) {
@@ -169,16 +247,1222 @@ function detectObjectVariableDestructure(targetFunction: any): boolean {
         continue;
       }
       if (initializerText === paramName) {
-        return true;
+        return { statement: stmt, declaration: decl, paramName };
       }
     }
   } catch (err) {
-    log('detectObjectVariableDestructure error', err);
+    log('findObjectVariableDestructure error', err);
   }
-  return false;
+  return null;
+}
+
+function detectObjectVariableDestructure(targetFunction: any): boolean {
+  return findObjectVariableDestructure(targetFunction) !== null;
+}
+
+interface DryRunCall {
+  folder?: string;
+  file: string;
+  line: number;
+  column: number;
+  original: string;
+  replacement: string | null;
+  reason?: string;
+  score?: number;
+}
+
+interface DryRunReport {
+  function: { file: string; name: string | null; params: string[] };
+  alreadyConverted: number;
+  confirmed: DryRunCall[];
+  fuzzy: DryRunCall[];
+  incompatible: DryRunCall[];
+}
+
+function buildDryRunCall(
+  candidate: any,
+  doc: vscode.TextDocument,
+  replacement: string | null
+): DryRunCall {
+  const start = typeof candidate.start === 'number' ? candidate.start : 0;
+  const end = typeof candidate.end === 'number' ? candidate.end : start;
+  const pos = doc.positionAt(start);
+  return {
+    folder: utils.getFolderName(candidate.filePath),
+    file: vscode.workspace.asRelativePath(candidate.filePath, false),
+    line: pos.line + 1,
+    column: pos.character + 1,
+    original: doc.getText().slice(start, end),
+    replacement,
+    reason: candidate.reason,
+    score: candidate.score,
+  };
+}
+
+/**
+ * Show the dry-run diff and report in untitled editors, or write them to
+ * the workspace root, depending on the dryRunOutput setting
+ */
+async function writeDryRunOutput(
+  workspaceRoot: string,
+  diffText: string,
+  report: DryRunReport
+): Promise<void> {
+  const cfg = vscode.workspace.getConfiguration('objectifyParams');
+  const output = (cfg.get('8.dryRunOutput') as string) || 'editor';
+  const reportText = JSON.stringify(report, null, 2);
+  const summary = `${report.confirmed.length} confirmed, ${report.fuzzy.length} fuzzy, ${report.incompatible.length} incompatible call(s)`;
+
+  if (output === 'file') {
+    const diffPath = path.join(workspaceRoot, 'objectify-params.diff');
+    const reportPath = path.join(workspaceRoot, 'objectify-params.json');
+    fs.writeFileSync(diffPath, diffText);
+    fs.writeFileSync(reportPath, reportText + '\n');
+    void vscode.window.showInformationMessage(
+      `Objectify Params: Dry run wrote objectify-params.diff and objectify-params.json (${summary}).`
+    );
+    return;
+  }
+
+  const diffDoc = await vscode.workspace.openTextDocument({
+    language: 'diff',
+    content: diffText,
+  });
+  await vscode.window.showTextDocument(diffDoc, { preview: false });
+  const reportDoc = await vscode.workspace.openTextDocument({
+    language: 'json',
+    content: reportText,
+  });
+  await vscode.window.showTextDocument(reportDoc, {
+    preview: false,
+    viewColumn: vscode.ViewColumn.Beside,
+  });
+  void vscode.window.showInformationMessage(
+    `Objectify Params: Dry run complete — no files changed (${summary}).`
+  );
+}
+
+export interface ConversionSettings {
+  /** Name template, expanded with the function name */
+  objectVariableName: string;
+  preserveTypes: boolean;
+  convertParameterProperties: boolean;
+  /** Name template of a generated type for the object, blank for inline */
+  paramsTypeName: string;
+  paramsTypeKind: 'interface' | 'type';
+}
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** Conversion settings, or null (after an error message) when invalid */
+export function getConversionSettings(): ConversionSettings | null {
+  const cfg = vscode.workspace.getConfiguration('objectifyParams');
+  const objectVariableSetting = (cfg.get('3.objectVariable') as string) || '';
+  const objectVariableName = objectVariableSetting.trim();
+  const paramsTypeName = ((cfg.get('15.paramsTypeName') as string) || '').trim();
+  // Templates are checked with a sample function name
+  for (const [name, kind] of [
+    [objectVariableName, 'variable'],
+    [paramsTypeName, 'type'],
+  ]) {
+    if (name && !IDENTIFIER_REGEX.test(text.expandNameTemplate(name, 'fn'))) {
+      void vscode.window.showErrorMessage(
+        `Objectify Params: "${name}" is not a valid ${kind} name. Change it in settings.`
+      );
+      return null;
+    }
+  }
+  const preserveTypesSetting = cfg.get('4.preserveTypes');
+  return {
+    objectVariableName,
+    preserveTypes:
+      typeof preserveTypesSetting === 'boolean' ? preserveTypesSetting : true,
+    convertParameterProperties: Boolean(
+      cfg.get('7.convertParameterProperties')
+    ),
+    paramsTypeName,
+    paramsTypeKind:
+      cfg.get('16.paramsTypeKind') === 'type' ? 'type' : 'interface',
+  };
+}
+
+function isTypeScriptSourceFile(sourceFile: SourceFile): boolean {
+  return (
+    sourceFile.getFilePath().endsWith('.ts') ||
+    sourceFile.getFilePath().endsWith('.tsx')
+  );
+}
+
+/** Parameter properties are only converted in TypeScript constructors */
+export function canConvertParameterProperties(
+  sourceFile: SourceFile,
+  targetFunction: any,
+  settings: ConversionSettings
+): boolean {
+  return (
+    settings.convertParameterProperties &&
+    targetFunction.getKind?.() === SyntaxKind.Constructor &&
+    isTypeScriptSourceFile(sourceFile)
+  );
+}
+
+const STATEMENT_CONTAINER_KINDS = new Set([
+  SyntaxKind.SourceFile,
+  SyntaxKind.Block,
+  SyntaxKind.ModuleBlock,
+]);
+
+const TYPE_NAME_DECLARATION_KINDS = [
+  SyntaxKind.InterfaceDeclaration,
+  SyntaxKind.TypeAliasDeclaration,
+  SyntaxKind.ClassDeclaration,
+  SyntaxKind.EnumDeclaration,
+];
+
+interface TypeDeclarationPlan {
+  /** Where the declaration is inserted, before the statement's JSDoc */
+  insertAt: number;
+  /** Declaration followed by a blank line and the statement's indentation */
+  text: string;
+  /** Reference used as the object parameter's type */
+  typeRefText: string;
+  /** The statement is the function's own (not an enclosing class) */
+  isOwnStatement: boolean;
+}
+
+function isTypeNameTaken(sourceFile: SourceFile, name: string): boolean {
+  const declared = TYPE_NAME_DECLARATION_KINDS.some((kind) =>
+    sourceFile
+      .getDescendantsOfKind(kind)
+      .some((d: any) => d.getName?.() === name)
+  );
+  return (
+    declared ||
+    sourceFile
+      .getDescendantsOfKind(SyntaxKind.ImportSpecifier)
+      .some((s) => (s.getAliasNode() ?? s.getNameNode()).getText() === name)
+  );
+}
+
+/**
+ * Named type for the object parameter, declared ahead of the statement
+ * holding the function (the enclosing class for members). Type parameters
+ * of the function and its enclosing declarations are carried over when
+ * the members use them.
+ */
+function planTypeDeclaration(
+  sourceFile: SourceFile,
+  targetFunction: any,
+  targetVariableDeclaration: any | null,
+  typeName: string,
+  kind: 'interface' | 'type',
+  members: parse.ParameterTypeMember[]
+): TypeDeclarationPlan | { skipReason: string } {
+  if (!IDENTIFIER_REGEX.test(typeName)) {
+    return { skipReason: `"${typeName}" is not a valid type name.` };
+  }
+  if (isTypeNameTaken(sourceFile, typeName)) {
+    return {
+      skipReason: `"${typeName}" is already declared in this file. Change the type name setting.`,
+    };
+  }
+
+  let statement: any = targetFunction;
+  while (
+    statement.getParent() &&
+    !STATEMENT_CONTAINER_KINDS.has(statement.getParent().getKind())
+  ) {
+    statement = statement.getParent();
+  }
+
+  const memberTypesText = members.map((m) => m.typeText).join(' ');
+  // Outermost declarations first, as they are in scope
+  const typeParams = [targetFunction, ...targetFunction.getAncestors()]
+    .reverse()
+    .flatMap((node: any) =>
+      typeof node.getTypeParameters === 'function'
+        ? node.getTypeParameters()
+        : []
+    )
+    .filter((tp: any) =>
+      new RegExp(`\\b${tp.getName()}\\b`).test(memberTypesText)
+    );
+  const typeParamsText = typeParams.length
+    ? `<${typeParams.map((tp: any) => tp.getText()).join(', ')}>`
+    : '';
+  const typeArgsText = typeParams.length
+    ? `<${typeParams.map((tp: any) => tp.getName()).join(', ')}>`
+    : '';
+
+  const fullText = sourceFile.getFullText();
+  const insertAt = statement.getStart(true);
+  const lineStart = fullText.lastIndexOf('\n', insertAt - 1) + 1;
+  const indentMatch = fullText.slice(lineStart, insertAt).match(/^\s*$/);
+  const indent = indentMatch ? indentMatch[0] : '';
+  const eol = fullText.includes('\r\n') ? '\r\n' : '\n';
+  const isExported =
+    statement.getParent()?.getKind() !== SyntaxKind.Block &&
+    functions.isExportedFunction(targetFunction, targetVariableDeclaration);
+
+  return {
+    insertAt,
+    text:
+      text.buildTypeDeclarationText(
+        typeName + typeParamsText,
+        members,
+        kind,
+        isExported,
+        eol,
+        indent
+      ) +
+      eol +
+      eol +
+      indent,
+    typeRefText: typeName + typeArgsText,
+    isOwnStatement:
+      statement === targetFunction ||
+      statement === targetVariableDeclaration?.getVariableStatement?.(),
+  };
+}
+
+/**
+ * Why the overrides, implementations or typed functions of the target
+ * can't be converted with it, or null when they can
+ */
+function getRelatedFunctionsSkipReason(
+  fnName: string,
+  family: any[],
+  hasOverloads: boolean,
+  isRestParameter: boolean,
+  isPartial: boolean
+): string | null {
+  const property = family.find(
+    (m) => Node.isPropertyDeclaration(m) || Node.isPropertySignature(m)
+  );
+  if (property) {
+    return `"${fnName}" is also declared as a property in ${property
+      .getParent()
+      .getName?.() ?? 'a class'}, which cannot be converted.`;
+  }
+  const external = family.find((m) => {
+    const sf = m.getSourceFile();
+    return (
+      sf.isDeclarationFile() ||
+      sf.getFilePath().indexOf(path.sep + 'node_modules' + path.sep) >= 0
+    );
+  });
+  if (external) {
+    return `"${fnName}" overrides or implements a declaration in ${external
+      .getSourceFile()
+      .getBaseName()}, which cannot be converted.`;
+  }
+  if (
+    isPartial ||
+    isRestParameter ||
+    hasOverloads ||
+    family.some(
+      (m) =>
+        // an abstract method lists itself as an overload
+        (!m.isAbstract?.() && m.getOverloads?.().length) ||
+        m.getParameters().some((p: any) => p.isRestParameter())
+    )
+  ) {
+    return 'Functions converted together with their overrides or implementations can only be converted fully, without rest parameters or overloads.';
+  }
+  return null;
+}
+
+/**
+ * Parameters of an adapter arrow in a TypeScript file, typed like the
+ * target's parameters as seen from the call site, since nothing else types
+ * them. Undefined in JavaScript and for rest parameters.
+ */
+function getAdapterParamsText(
+  project: Project,
+  candidate: parse.CallCandidate,
+  params: any[],
+  paramNames: string[]
+): string[] | undefined {
+  const sourceFile = sfc.getSourceFile(project, candidate.filePath);
+  if (
+    !sourceFile ||
+    !isTypeScriptSourceFile(sourceFile) ||
+    params.length !== paramNames.length ||
+    params.some((p: any) => p.isRestParameter())
+  ) {
+    return undefined;
+  }
+  const site = sourceFile.getDescendantAtPos(candidate.start ?? 0) ?? sourceFile;
+  return params.map((p: any, i: number) => {
+    const isOptional = p.hasQuestionToken() || p.hasInitializer();
+    // Types out of scope print as import("/abs/path").Name
+    const typeText = p
+      .getType()
+      .getText(site)
+      .replace(/import\("([^"]+)"\)/g, (match: string, specifier: string) => {
+        if (!path.isAbsolute(specifier)) return match;
+        const relative = path
+          .relative(path.dirname(sourceFile.getFilePath()), specifier)
+          .split(path.sep)
+          .join('/');
+        return `import("${relative.startsWith('.') ? relative : './' + relative}")`;
+      });
+    return `${paramNames[i]}${isOptional ? '?' : ''}: ${typeText}`;
+  });
+}
+
+/**
+ * Calls found by symbol and calls found through a contract's signature,
+ * which include the direct calls of a function it types
+ */
+function mergeCollectedCalls(
+  symbolCalls: parse.CollectedCalls | null,
+  contractCalls: parse.CollectedCalls | null
+): parse.CollectedCalls {
+  if (!symbolCalls || !contractCalls) {
+    return (symbolCalls || contractCalls) as parse.CollectedCalls;
+  }
+  const keys = new Set(
+    [...symbolCalls.confirmed, ...symbolCalls.fuzzy].map(
+      (c) => `${c.filePath}:${c.start}`
+    )
+  );
+  const isNew = (c: parse.CallCandidate): boolean =>
+    !keys.has(`${c.filePath}:${c.start}`);
+  return {
+    confirmed: [
+      ...symbolCalls.confirmed,
+      ...contractCalls.confirmed.filter(isNew),
+    ],
+    fuzzy: [...symbolCalls.fuzzy, ...contractCalls.fuzzy.filter(isNew)],
+    shouldAbort: symbolCalls.shouldAbort,
+    alreadyConvertedCount: Math.max(
+      symbolCalls.alreadyConvertedCount || 0,
+      contractCalls.alreadyConvertedCount || 0
+    ),
+  };
+}
+
+/**
+ * Edit converting a function related to the target: an override or
+ * implementation of a method, or a function typed by a contract. Its
+ * parameters take the target's property names by position, destructured
+ * under their own names when those differ, and keep their own types. The
+ * edit stops at the start of the body, so calls in the body are edited
+ * separately.
+ */
+function planRelatedFunction(
+  member: any,
+  fnName: string,
+  paramNames: string[],
+  objectVariableName: string,
+  preserveTypes: boolean
+): parse.CallCandidate {
+  const sourceFile = member.getSourceFile();
+  const params = member.getParameters();
+  const propertyNames = params.map(
+    (p: any, i: number) => paramNames[i] ?? p.getName()
+  );
+  const destructuredParams = params
+    .map((p: any, i: number) => {
+      const name = p.getName();
+      const binding =
+        name === propertyNames[i] ? name : `${propertyNames[i]}: ${name}`;
+      const initializer = p.getInitializer();
+      return initializer ? `${binding} = ${initializer.getText()}` : binding;
+    })
+    .join(', ');
+
+  // Decorators may contain parentheses, so the text starts at the name
+  const textStart = member.getNameNode?.()?.getStart() ?? member.getStart();
+  const fullText = sourceFile.getFullText();
+  const original = fullText.slice(textStart, member.getEnd());
+  const openParen = member.getFirstChildByKind(SyntaxKind.OpenParenToken);
+  const closeParen = member.getFirstChildByKind(SyntaxKind.CloseParenToken);
+  const paramsStart = openParen
+    ? openParen.getStart()
+    : params[0].getStart();
+  const paramsEnd = closeParen
+    ? closeParen.getEnd()
+    : params[params.length - 1].getEnd();
+  // A lone arrow function parameter gets parentheses
+  const parenthesized = openParen
+    ? original
+    : fullText.slice(textStart, paramsStart) +
+      `(${fullText.slice(paramsStart, paramsEnd)})` +
+      fullText.slice(paramsEnd, member.getEnd());
+
+  // Functions typed by a contract take their types from it, unless they
+  // annotate their own parameters
+  const isTypeScript =
+    isTypeScriptSourceFile(sourceFile) &&
+    params.some((p: any) => p.getTypeNode());
+  const body = member.getBody?.();
+  const objectVariable =
+    body && !Node.isBlock(body) ? '' : objectVariableName;
+  const transformed = text.transformFunctionText(
+    parenthesized,
+    params,
+    propertyNames,
+    isTypeScript
+      ? parse.extractParameterTypes(params, propertyNames, sourceFile, false, [])
+      : '',
+    isTypeScript,
+    false,
+    {
+      objectVariableName: objectVariable,
+      preserveTypes,
+      destructuredParamsText: destructuredParams,
+    }
+  );
+  const converted =
+    objectVariable && body
+      ? text.insertObjectVariableDestructureLine(
+          transformed.text,
+          transformed.destructuredParams,
+          objectVariable,
+          getLineIndent(member)
+        )
+      : transformed.text;
+
+  // From the parameter list to the last change
+  const change = text.buildMinimalEdit(original, converted);
+  const start = Math.min(
+    change ? change.start : original.length,
+    paramsStart - textStart
+  );
+  const end = Math.max(change ? change.end : 0, paramsEnd - textStart);
+  const filePath = sourceFile.getFilePath();
+  return {
+    filePath: sfc.getComponentPath(filePath) ?? filePath,
+    start: textStart + start,
+    end: textStart + end,
+    exprText: fnName,
+    argsText: null,
+    callForm: 'declaration',
+    declarationText: converted.slice(
+      start,
+      converted.length - (original.length - end)
+    ),
+  };
+}
+
+export interface ConversionPlan {
+  fnName: string;
+  targetFunction: any;
+  targetVariableDeclaration: any | null;
+  params: any[];
+  paramNames: string[];
+  optionalParamNames: boolean[];
+  isRestParameter: boolean;
+  restTupleElements: string[];
+  targetStart: number;
+  targetEnd: number;
+  /** Start of the function edit, before overloads and new class fields */
+  editStart: number;
+  originalFunctionText: string;
+  originalEditText: string;
+  highlightStart: number;
+  confirmed: parse.CallCandidate[];
+  fuzzy: parse.CallCandidate[];
+  alreadyConvertedCount: number;
+  /** Type of the object parameter */
+  paramTypeText: string;
+  /** Declaration of a named object type outside the function edit */
+  typeDeclarationEdit: text.TextEdit | null;
+  applyFunctionTransform: (sourceFnText: string, paramTypeText: string) => string;
+  buildEditText: (newFnText: string) => string;
+  buildCandidateReplacement: (call: any) => string;
+  getCallParamInfo: (call: any) => {
+    names: string[];
+    optional: boolean[];
+    positional: number[];
+  };
+  /** Replacement for a call, null when it has no parsed arguments to rebuild */
+  planCall: (c: any) => text.TextEdit | null;
+  /** Calls inside the function body and calls elsewhere */
+  splitCalls: (calls: any[]) => { internal: any[]; external: any[] };
+  /** The function edit, with the given calls in its body rewritten */
+  buildFunctionEdit: (internalCalls: any[]) => text.TextEdit;
+}
+
+/**
+ * Analyse the function and collect its calls without changing anything.
+ * Returns a skip reason when the function cannot be converted, null when
+ * the user was already told why (e.g. in a dialog).
+ */
+export async function planConversion(
+  project: Project,
+  workspaceRoot: string,
+  folderRoots: string[],
+  sourceFile: SourceFile,
+  filePath: string,
+  functionResult: functions.FunctionDetectionResult,
+  settings: ConversionSettings,
+  originalEditor?: vscode.TextEditor,
+  originalSelection?: vscode.Selection,
+  positionalIndices: number[] = []
+): Promise<ConversionPlan | { skipReason: string | null }> {
+  const { targetFunction, targetVariableDeclaration, params, fnName } =
+    functionResult;
+  const isTypeScriptFile = isTypeScriptSourceFile(sourceFile);
+  const { preserveTypes } = settings;
+  const objectVariableName = text.expandNameTemplate(
+    settings.objectVariableName,
+    fnName
+  );
+  const convertParameterProperties = canConvertParameterProperties(
+    sourceFile,
+    targetFunction,
+    settings
+  );
+  const targetKind =
+    typeof targetFunction.getKind === 'function'
+      ? targetFunction.getKind()
+      : undefined;
+  const targetIsConstructor = targetKind === SyntaxKind.Constructor;
+  const targetRequiresPropertyAccess =
+    targetKind === SyntaxKind.MethodDeclaration &&
+    typeof targetFunction.isStatic === 'function' &&
+    targetFunction.isStatic();
+
+  // Extract parameter names (handling rest parameters)
+  const paramInfo = await functions.extractParameterNames(params);
+  if (!paramInfo) {
+    return { skipReason: null };
+  }
+
+  const {
+    isRestParameter,
+    paramNames,
+    restTupleElements,
+    optionalParamNames,
+  } = paramInfo;
+
+  // Parameters kept positional stay ahead of the object parameter, which
+  // takes the rest
+  const objectParams = params.filter(
+    (param: any, i: number) => !positionalIndices.includes(i)
+  );
+  const objectParamNames = positionalIndices.length
+    ? paramNames.filter((name, i) => !positionalIndices.includes(i))
+    : paramNames;
+  // A required object can't follow optional positional parameters
+  const isObjectOptional = optionalParamNames.every(
+    (isOptional, i) => isOptional || positionalIndices.includes(i)
+  );
+  if (
+    !isObjectOptional &&
+    positionalIndices.some((i) => optionalParamNames[i])
+  ) {
+    return {
+      skipReason:
+        'Optional parameters can only stay positional when every parameter moved into the object is optional.',
+    };
+  }
+
+  const targetStart = targetFunction.getStart();
+  const targetEnd = targetFunction.getEnd();
+  const originalFunctionText = targetFunction.getText();
+  const isTargetFunctionNested = isLexicallyNestedFunction(targetFunction);
+
+  // Overload signatures are rewritten together with the implementation,
+  // so the function edit spans from the first overload to the end
+  const overloads = functions.getOverloadSignatures(targetFunction);
+
+  // Overrides and implementations of a method, and functions typed by a
+  // contract or an interface method, are converted with it; those without
+  // parameters already accept the object. A function typed by a contract,
+  // such as `const f: Fn = (a, b) => {}`, brings the contract and the
+  // other functions it types.
+  const implementedContract = functions.isContract(targetFunction)
+    ? null
+    : parse.getImplementedContract(project, targetFunction);
+  const methodFamily = implementedContract
+    ? [implementedContract, ...functions.getMethodFamily(implementedContract)]
+    : functions.getMethodFamily(targetFunction);
+  const relatedFunctions = [
+    ...methodFamily,
+    ...[targetFunction, ...methodFamily]
+      .filter((f: any) => functions.isContract(f))
+      .flatMap((f: any) => parse.findContractImplementations(project, f)),
+  ].filter((f: any, i, all) => f !== targetFunction && all.indexOf(f) === i);
+  // Calls through a function type or call signature have no symbol
+  const signatureContract = [targetFunction, implementedContract].find(
+    (f: any) => f && functions.isContract(f) && !Node.isMethodSignature(f)
+  );
+  const familySkipReason = relatedFunctions.length
+    ? getRelatedFunctionsSkipReason(
+        fnName,
+        relatedFunctions,
+        overloads.length > 0,
+        isRestParameter,
+        positionalIndices.length > 0
+      )
+    : null;
+  if (familySkipReason) {
+    return { skipReason: familySkipReason };
+  }
+
+  // Parameter comments and JSDoc descriptions move onto the type's members
+  const paramDescriptions = isTypeScriptFile
+    ? functions.getParameterDescriptions(
+        targetFunction,
+        targetVariableDeclaration,
+        params
+      )
+    : new Map<string, string>();
+
+  // Overloads keep inline types, one per signature
+  const typeDeclarationResult =
+    settings.paramsTypeName &&
+    isTypeScriptFile &&
+    preserveTypes &&
+    !overloads.length
+      ? planTypeDeclaration(
+          sourceFile,
+          targetFunction,
+          targetVariableDeclaration,
+          text.expandNameTemplate(settings.paramsTypeName, fnName),
+          settings.paramsTypeKind,
+          parse.extractParameterTypeMembers(
+            objectParams,
+            objectParamNames,
+            sourceFile,
+            isRestParameter,
+            restTupleElements,
+            paramDescriptions
+          )
+        )
+      : null;
+  if (typeDeclarationResult && 'skipReason' in typeDeclarationResult) {
+    return typeDeclarationResult;
+  }
+  const typeDeclaration =
+    typeDeclarationResult && !('skipReason' in typeDeclarationResult)
+      ? typeDeclarationResult
+      : null;
+  const paramTypeText = typeDeclaration
+    ? typeDeclaration.typeRefText
+    : parse.extractParameterTypes(
+        objectParams,
+        objectParamNames,
+        sourceFile,
+        isRestParameter,
+        restTupleElements,
+        paramDescriptions
+      );
+  const overloadPlan = overloads.length
+    ? functions.planOverloadImplementation(params, paramNames, overloads)
+    : null;
+  // Parameter properties become class fields declared above the
+  // constructor, ahead of its JSDoc
+  const parameterPropertyConversion =
+    convertParameterProperties && functions.hasParameterProperties(params)
+      ? functions.buildParameterPropertyConversion(targetFunction, params)
+      : null;
+  const firstSignature = overloads.length
+    ? overloads[0].node
+    : targetFunction;
+  const signatureStart = parameterPropertyConversion
+    ? firstSignature.getStart(true)
+    : firstSignature.getStart();
+  const typeEdit: text.TextEdit | null = typeDeclaration
+    ? {
+        start: typeDeclaration.insertAt,
+        end: typeDeclaration.insertAt,
+        newText: typeDeclaration.text,
+      }
+    : null;
+
+  // JSDoc @param tags of JavaScript functions describe the object instead;
+  // in TypeScript their descriptions moved onto the type's members
+  const jsDoc = isRestParameter
+    ? null
+    : functions.getFunctionJsDoc(targetFunction, targetVariableDeclaration);
+  const rewrittenJsDoc = !jsDoc
+    ? null
+    : isTypeScriptFile
+    ? text.removeJsDocParamTags(jsDoc.getText(), objectParamNames)
+    : text.rewriteJsDocParamTags(
+      jsDoc.getText(),
+      objectVariableName || 'params',
+      objectParams.map((p: any, i: number) => ({
+        name: objectParamNames[i],
+        defaultText: p.getInitializer?.()?.getText() ?? null,
+        isOptional: optionalParamNames[params.indexOf(p)],
+      })),
+      positionalIndices.map((i) => paramNames[i]),
+      positionalIndices.length > 0 && isObjectOptional
+    );
+  // A JSDoc left without content goes, with the whitespace after it
+  const jsDocEdit: text.TextEdit | null =
+    rewrittenJsDoc !== null
+      ? {
+          start: jsDoc.getStart(),
+          end: rewrittenJsDoc
+            ? jsDoc.getEnd()
+            : jsDoc.getEnd() +
+              (sourceFile.getFullText().slice(jsDoc.getEnd()).match(/^\s*/)?.[0]
+                .length ?? 0),
+          newText: rewrittenJsDoc,
+        }
+      : null;
+
+  // The JSDoc and the type of a function statement are part of the function
+  // edit; a class member's type goes before the class in an edit of its own
+  const leadingEdit = typeDeclaration?.isOwnStatement ? typeEdit : null;
+  const typeDeclarationEdit = typeDeclaration?.isOwnStatement
+    ? null
+    : typeEdit;
+  const editStart = Math.min(
+    leadingEdit ? leadingEdit.start : signatureStart,
+    jsDocEdit ? jsDocEdit.start : signatureStart
+  );
+  const originalEditText = sourceFile
+    .getFullText()
+    .slice(editStart, targetEnd);
+
+  let highlightStart = signatureStart;
+  if (targetVariableDeclaration) {
+    try {
+      const nameNode =
+        typeof targetVariableDeclaration.getNameNode === 'function'
+          ? targetVariableDeclaration.getNameNode()
+          : undefined;
+      if (nameNode && typeof nameNode.getStart === 'function') {
+        const nameStart = nameNode.getStart();
+        if (typeof nameStart === 'number' && nameStart < targetStart) {
+          highlightStart = nameStart;
+        }
+      }
+    } catch (e) {
+      // ignore errors; default highlight start is the function start
+    }
+  }
+
+  // Check if function already uses object destructuring pattern
+  const hasObjectDestructuring = hasObjectParamDestructuring(params);
+
+  const hasObjectVariableDestructure = detectObjectVariableDestructure(
+    targetFunction
+  );
+
+  if (hasObjectDestructuring || hasObjectVariableDestructure) {
+    return {
+      skipReason:
+        'This function already uses object parameter destructuring.',
+    };
+  }
+
+  // A contract has no body; only its parameter is named
+  const isContractTarget = functions.isContract(targetFunction);
+  if (objectVariableName && !isContractTarget) {
+    const bodyNode =
+      typeof targetFunction.getBody === 'function'
+        ? targetFunction.getBody()
+        : null;
+    const bodyKind =
+      bodyNode && typeof bodyNode.getKind === 'function'
+        ? bodyNode.getKind()
+        : null;
+    if (bodyKind !== SyntaxKind.Block) {
+      return {
+        skipReason:
+          'Object Variable requires the function to use a block body (wrap arrow functions in braces).',
+      };
+    }
+  }
+
+  // Resolve target symbol
+  const { resolvedTarget, canProceedWithoutSymbol } = parse.resolveSymbol(
+    project,
+    targetFunction,
+    targetVariableDeclaration,
+    fnName
+  );
+
+  if (!resolvedTarget && !canProceedWithoutSymbol) {
+    return {
+      skipReason:
+        'This function cannot be converted — cannot resolve symbol for the selected function.',
+    };
+  }
+
+  // Collect all calls to the target function. Function types and call
+  // signatures have no symbol of their own, so their calls are found by
+  // the signature they resolve to.
+  const contractCalls = signatureContract
+    ? parse.collectContractCalls(project, signatureContract, paramNames)
+    : null;
+  const symbolCalls =
+    signatureContract === targetFunction
+      ? null
+      : await parse.collectCalls(
+          project,
+          workspaceRoot,
+          fnName,
+          resolvedTarget,
+          paramNames,
+          originalEditor,
+          originalSelection,
+          filePath,
+          targetStart,
+          targetEnd,
+          isTargetFunctionNested,
+          targetVariableDeclaration
+            ? targetVariableDeclaration.getStart()
+            : undefined,
+          targetIsConstructor,
+          targetRequiresPropertyAccess,
+          false,
+          folderRoots,
+          methodFamily.map((m: any) => m.getSymbol()).filter(Boolean)
+        );
+  const callCollection = mergeCollectedCalls(symbolCalls, contractCalls);
+  // A function passed where its contract is expected takes the object
+  // once the contract is converted
+  if (signatureContract && symbolCalls) {
+    callCollection.fuzzy = callCollection.fuzzy.filter(
+      (c) =>
+        c.callForm !== 'value-adapter' ||
+        !parse.isPassedAsContract(project, c, signatureContract)
+    );
+  }
+
+  if (callCollection.shouldAbort) {
+    return {
+      skipReason:
+        'Operation cancelled — no changes made.',
+    };
+  }
+
+  for (const c of [...callCollection.confirmed, ...callCollection.fuzzy]) {
+    if (c.callForm === 'bind-adapter' || c.callForm === 'value-adapter') {
+      c.adapterParamsText = getAdapterParamsText(project, c, params, paramNames);
+    }
+  }
+
+  let confirmed = [
+    ...relatedFunctions
+      .filter((m: any) => m.getParameters().length > 0)
+      .map((m: any) =>
+        planRelatedFunction(
+          m,
+          fnName,
+          paramNames,
+          objectVariableName,
+          preserveTypes
+        )
+      ),
+    ...callCollection.confirmed,
+  ];
+  let fuzzy = callCollection.fuzzy;
+  const alreadyConvertedCount = callCollection.alreadyConvertedCount || 0;
+
+  const transformOptions = {
+    objectVariableName,
+    preserveTypes,
+    destructuredParamsText: overloadPlan?.destructuredParams,
+  };
+
+  // With differing overload names the implementation accepts the merged
+  // properties of every overload
+  const overloadTypeText = overloadPlan
+    ? `{ ${overloadPlan.properties
+        .map((p) => `${p.name}${p.isOptional ? '?' : ''}: ${p.typeText}`)
+        .join('; ')} }`
+    : '';
+
+  const applyFunctionTransform = (
+    sourceFnText: string,
+    paramTypeText: string
+  ): string => {
+    const transformed = text.transformFunctionText(
+      sourceFnText,
+      objectParams,
+      objectParamNames,
+      overloadPlan ? overloadTypeText : paramTypeText,
+      isTypeScriptFile,
+      isRestParameter,
+      positionalIndices.length
+        ? {
+            ...transformOptions,
+            positionalParamsText: positionalIndices
+              .map((i) => params[i].getText())
+              .join(', '),
+            optionalObject: isObjectOptional,
+          }
+        : transformOptions
+    );
+    let fnText = transformed.text;
+    const lineIndent = getLineIndent(targetFunction);
+    if (parameterPropertyConversion) {
+      const { assignmentLines, superCallText } = parameterPropertyConversion;
+      for (const line of [...assignmentLines].reverse()) {
+        fnText = superCallText
+          ? text.insertLineAfterStatement(fnText, superCallText, line)
+          : text.insertFirstBodyLine(fnText, line, lineIndent);
+      }
+    }
+    if (overloadPlan) {
+      for (const line of [...overloadPlan.aliasLines].reverse()) {
+        fnText = text.insertFirstBodyLine(fnText, line, lineIndent);
+      }
+    }
+    if (objectVariableName && !isContractTarget) {
+      return text.insertObjectVariableDestructureLine(
+        fnText,
+        transformed.destructuredParams,
+        objectVariableName,
+        lineIndent
+      );
+    }
+    return fnText;
+  };
+
+  // Prepend the new type, the rewritten JSDoc, new class fields and the
+  // converted overload signatures to the implementation text
+  const buildEditText = (newFnText: string): string => {
+    if (
+      !overloads.length &&
+      !parameterPropertyConversion &&
+      !leadingEdit &&
+      !jsDocEdit
+    ) {
+      return newFnText;
+    }
+    const fullText = sourceFile.getFullText();
+    // Original text between two offsets, with the JSDoc edit if it is there
+    const copyText = (from: number, to: number): string =>
+      jsDocEdit && jsDocEdit.start >= from && jsDocEdit.end <= to
+        ? fullText.slice(from, jsDocEdit.start) +
+          jsDocEdit.newText +
+          fullText.slice(jsDocEdit.end, to)
+        : fullText.slice(from, to);
+    let result = '';
+    let cursor = editStart;
+    if (leadingEdit) {
+      result += leadingEdit.newText;
+      cursor = leadingEdit.end;
+    }
+    result += copyText(cursor, signatureStart);
+    cursor = signatureStart;
+    if (parameterPropertyConversion) {
+      const eol = fullText.includes('\r\n') ? '\r\n' : '\n';
+      const lineStart = fullText.lastIndexOf('\n', signatureStart - 1) + 1;
+      const indentMatch = fullText
+        .slice(lineStart, signatureStart)
+        .match(/^\s*$/);
+      const indent = indentMatch ? indentMatch[0] : '';
+      result +=
+        parameterPropertyConversion.fieldLines.join(eol + indent) +
+        eol +
+        eol +
+        indent;
+    }
+    for (const o of overloads) {
+      const signatureTypeText = parse.extractParameterTypes(
+        o.params,
+        o.paramNames,
+        sourceFile,
+        false,
+        []
+      );
+      const converted = text.transformFunctionText(
+        o.node.getText(),
+        o.params,
+        o.paramNames,
+        signatureTypeText,
+        isTypeScriptFile,
+        false,
+        { objectVariableName, preserveTypes }
+      );
+      result += copyText(cursor, o.node.getStart()) + converted.text;
+      cursor = o.node.getEnd();
+    }
+    return result + copyText(cursor, targetStart) + newFnText;
+  };
+
+  // Calls resolved to an overload use that overload's parameter names
+  const getCallParamInfo = (
+    call: any
+  ): { names: string[]; optional: boolean[]; positional: number[] } => {
+    const overload =
+      call && typeof call.overloadStart === 'number'
+        ? overloads.find((o) => o.node.getStart() === call.overloadStart)
+        : undefined;
+    return overload
+      ? {
+          names: overload.paramNames,
+          optional: overload.optionalParamNames,
+          positional: [],
+        }
+      : {
+          names: paramNames,
+          optional: optionalParamNames,
+          positional: positionalIndices,
+        };
+  };
+
+  const buildCandidateReplacement = (call: any): string => {
+    const { names, optional, positional } = getCallParamInfo(call);
+    return text.buildCandidateReplacement(call, names, optional, positional);
+  };
+
+  if (overloadPlan) {
+    // Implementation names are not properties of the merged type, so a
+    // call with no resolved overload gets the first one that fits and is
+    // reviewed by the user
+    const unresolved = confirmed.filter(
+      (c) => typeof c.overloadStart !== 'number'
+    );
+    for (const c of unresolved) {
+      const argCount = c.argsText ? c.argsText.length : 0;
+      const fallback =
+        overloads.find((o) => o.paramNames.length >= argCount) ||
+        overloads[0];
+      fuzzy.push({
+        ...c,
+        overloadStart: fallback.node.getStart(),
+        reason: 'overload-unresolved',
+        score: 3,
+      });
+    }
+    confirmed = confirmed.filter((c) => !unresolved.includes(c));
+  }
+
+  // Replacement text and range for a call, null when it has no
+  // parsed arguments to rebuild
+  const planCall = (c: any): text.TextEdit | null => {
+    if (typeof c.start === 'number' && typeof c.end === 'number') {
+      return c.argsText ||
+        c.callForm === 'value-adapter' ||
+        c.callForm === 'declaration'
+        ? { start: c.start, end: c.end, newText: buildCandidateReplacement(c) }
+        : null;
+    }
+    return null;
+  };
+
+  const splitCalls = (calls: any[]): { internal: any[]; external: any[] } =>
+    splitInternalCalls(calls, filePath, targetStart, targetEnd);
+
+  const buildFunctionEdit = (internalCalls: any[]): text.TextEdit => {
+    const functionTextWithInternal = applyInternalCallReplacements(
+      originalFunctionText,
+      internalCalls,
+      targetStart,
+      (exprText, argsTextArr, call) =>
+        buildCandidateReplacement({
+          ...call,
+          exprText,
+          argsText: argsTextArr,
+        })
+    );
+    return {
+      start: editStart,
+      end: targetEnd,
+      newText: buildEditText(
+        applyFunctionTransform(functionTextWithInternal, paramTypeText)
+      ),
+    };
+  };
+
+  return {
+    fnName,
+    targetFunction,
+    targetVariableDeclaration,
+    params,
+    paramNames,
+    optionalParamNames,
+    isRestParameter,
+    restTupleElements,
+    targetStart,
+    targetEnd,
+    editStart,
+    originalFunctionText,
+    originalEditText,
+    highlightStart,
+    confirmed,
+    fuzzy,
+    alreadyConvertedCount,
+    paramTypeText,
+    typeDeclarationEdit,
+    applyFunctionTransform,
+    buildEditText,
+    buildCandidateReplacement,
+    getCallParamInfo,
+    planCall,
+    splitCalls,
+    buildFunctionEdit,
+  };
+}
+
+/**
+ * Convert the function at the cursor. The diagnostics quick fix passes the
+ * document and position of the flagged function, which become the cursor.
+ */
+export async function convertCommandHandler(
+  uri?: unknown,
+  position?: unknown
+): Promise<void> {
+  if (uri instanceof vscode.Uri && position instanceof vscode.Position) {
+    await vscode.window.showTextDocument(uri, {
+      selection: new vscode.Range(position, position),
+    });
+  }
+  await convertFunctionAtCursor(false);
+}
+
+/**
+ * Reject functions partial conversion can't handle, then ask which
+ * parameters stay positional. Returns null when cancelled or rejected.
+ */
+async function pickPositionalParams(
+  functionResult: functions.FunctionDetectionResult
+): Promise<number[] | null> {
+  const { targetFunction, targetVariableDeclaration, params } = functionResult;
+  let reason: string | null = null;
+  if (params.length < 2) {
+    reason = 'Partial conversion needs at least two parameters.';
+  } else if (params.some((p: any) => p.isRestParameter())) {
+    reason = 'Partial conversion does not support rest parameters.';
+  } else if (functions.getOverloadSignatures(targetFunction).length) {
+    reason = 'Partial conversion does not support overloaded functions.';
+  } else if (functions.hasParameterProperties(params)) {
+    reason = 'Partial conversion does not support parameter properties.';
+  }
+  if (reason) {
+    void vscode.window.showErrorMessage(`Objectify Params: ${reason}`);
+    return null;
+  }
+
+  const paramInfo = await functions.extractParameterNames(params);
+  if (!paramInfo) {
+    return null;
+  }
+  return dialogs.pickObjectParams(
+    functions.getFunctionName(targetFunction, targetVariableDeclaration) ||
+      'function',
+    paramInfo.paramNames
+  );
+}
+
+/** Run the conversion without editing, producing a diff and a report */
+export async function dryRunCommandHandler(): Promise<void> {
+  await convertFunctionAtCursor(true);
 }
 
-export async function convertCommandHandler(...args: any[]): Promise<void> {
+/** Convert only some parameters, keeping the others positional */
+export async function partialCommandHandler(): Promise<void> {
+  await convertFunctionAtCursor(false, true);
+}
+
+async function convertFunctionAtCursor(
+  dryRun: boolean,
+  partial = false
+): Promise<void> {
   const context = utils.getWorkspaceContext();
   if (!context) return;
 
@@ -204,25 +1488,26 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
     : undefined;
   const cursorOffset = editor.document.offsetAt(editor.selection.active);
 
+  const folderRoots = await utils.selectWorkspaceFolders(workspaceRoot);
+  if (!folderRoots) {
+    return;
+  }
+
   try {
-    const project = await parse.createProjectFromConfig(workspaceRoot);
+    const project = await cache.getProject(
+      workspaceRoot,
+      filePath,
+      folderRoots
+    );
 
-    // Ensure current file is in the project
-    let sourceFile = project.getSourceFile(filePath);
-    const wasNotInProject = !sourceFile;
-    
+    // The cached project is shared between runs, so a file outside it is
+    // reported rather than added
+    const sourceFile = sfc.getSourceFile(project, filePath);
     if (!sourceFile) {
-      sourceFile = project.createSourceFile(
-        filePath,
-        editor.document.getText(),
-        { overwrite: true }
-      );
+      showNotIncludedMessage();
+      return;
     }
 
-    const isTypeScriptFile =
-      sourceFile.getFilePath().endsWith('.ts') ||
-      sourceFile.getFilePath().endsWith('.tsx');
-
     // Find function declaration or function expression at cursor
     const functionResult = functions.findTargetFunction(
       sourceFile,
@@ -232,198 +1517,184 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
       return;
     }
 
-    const { targetFunction, targetVariableDeclaration, params, fnName } =
-      functionResult;
-    const targetKind =
-      typeof targetFunction.getKind === 'function'
-        ? targetFunction.getKind()
-        : undefined;
-    const targetIsConstructor = targetKind === SyntaxKind.Constructor;
-    const targetRequiresPropertyAccess =
-      targetKind === SyntaxKind.MethodDeclaration &&
-      typeof targetFunction.isStatic === 'function' &&
-      targetFunction.isStatic();
-
     const cfg = vscode.workspace.getConfiguration('objectifyParams');
     const showPreviews = cfg.get('1.showPreviews') as boolean;
     const highlightDelay = (cfg.get('2.highlightDelay') as number) ?? 1000;
-    const objectVariableSetting =
-      (cfg.get('3.objectVariable') as string) || '';
-    const objectVariableName = objectVariableSetting.trim();
-    const identifierRegex = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
-    if (objectVariableName && !identifierRegex.test(objectVariableName)) {
-      void vscode.window.showErrorMessage(
-        `Objectify Params: "${objectVariableName}" is not a valid variable name. Change it in settings.`
-      );
-      return;
-    }
-    const preserveTypesSetting = cfg.get('4.preserveTypes');
-    const preserveTypes =
-      typeof preserveTypesSetting === 'boolean' ? preserveTypesSetting : true;
-
-    // If file wasn't in the project, warn the user
-    if (wasNotInProject) {
-      showNotIncludedMessage();
+    const usePanel = (cfg.get('10.reviewMode') as string) !== 'dialogs';
+    const settings = getConversionSettings();
+    if (!settings) {
       return;
     }
+    const { objectVariableName } = settings;
 
     // Validate function can be converted
-    const isValid = await functions.validateFunction(targetFunction, params);
+    const isValid = await functions.validateFunction(
+      functionResult.targetFunction,
+      functionResult.params,
+      canConvertParameterProperties(
+        sourceFile,
+        functionResult.targetFunction,
+        settings
+      )
+    );
     if (!isValid) {
       return;
     }
 
-    // Extract parameter names (handling rest parameters)
-    const paramInfo = await functions.extractParameterNames(params);
-    if (!paramInfo) {
-      return;
+    let positionalIndices: number[] = [];
+    if (partial) {
+      const picked = await pickPositionalParams(functionResult);
+      if (!picked) {
+        return;
+      }
+      positionalIndices = picked;
     }
 
+    const plan = await planConversion(
+      project,
+      workspaceRoot,
+      folderRoots,
+      sourceFile,
+      filePath,
+      functionResult,
+      settings,
+      originalEditor,
+      originalSelection,
+      positionalIndices
+    );
+    if ('skipReason' in plan) {
+      if (plan.skipReason) {
+        void vscode.window.showInformationMessage(
+          `Objectify Params: ${plan.skipReason}`
+        );
+      }
+      return;
+    }
     const {
-      isRestParameter,
+      fnName,
+      params,
       paramNames,
-      restTupleElements,
       optionalParamNames,
-    } = paramInfo;
+      isRestParameter,
+      restTupleElements,
+      targetStart,
+      targetEnd,
+      editStart,
+      originalFunctionText,
+      originalEditText,
+      highlightStart,
+      alreadyConvertedCount,
+      paramTypeText,
+      typeDeclarationEdit,
+      applyFunctionTransform,
+      buildEditText,
+      buildCandidateReplacement,
+      getCallParamInfo,
+      planCall,
+      splitCalls,
+      buildFunctionEdit,
+    } = plan;
+    let { confirmed, fuzzy } = plan;
+
+    // A class member's named type is inserted before the class, moving
+    // the function down
+    const typeDeclarationShift = typeDeclarationEdit?.newText.length ?? 0;
+    const addTypeDeclarationEdit = (
+      edit: vscode.WorkspaceEdit,
+      doc: vscode.TextDocument
+    ): void => {
+      if (typeDeclarationEdit) {
+        edit.insert(
+          doc.uri,
+          doc.positionAt(typeDeclarationEdit.start),
+          typeDeclarationEdit.newText
+        );
+      }
+    };
 
-    const targetStart = targetFunction.getStart();
-    const targetEnd = targetFunction.getEnd();
-    const originalFunctionText = targetFunction.getText();
-    const isTargetFunctionNested = isLexicallyNestedFunction(targetFunction);
-
-    let highlightStart = targetStart;
-    if (targetVariableDeclaration) {
-      try {
-        const nameNode =
-          typeof targetVariableDeclaration.getNameNode === 'function'
-            ? targetVariableDeclaration.getNameNode()
-            : undefined;
-        if (nameNode && typeof nameNode.getStart === 'function') {
-          const nameStart = nameNode.getStart();
-          if (typeof nameStart === 'number' && nameStart < targetStart) {
-            highlightStart = nameStart;
-          }
-        }
-      } catch (e) {
-        // ignore errors; default highlight start is the function start
+    const docs = new Map<string, vscode.TextDocument>();
+    const getDoc = async (fp: string): Promise<vscode.TextDocument> => {
+      let doc = docs.get(fp);
+      if (!doc) {
+        doc = await vscode.workspace.openTextDocument(vscode.Uri.file(fp));
+        docs.set(fp, doc);
       }
-    }
-
-    // Check if function already uses object destructuring pattern
-    const hasObjectDestructuring =
-      params.length === 1 &&
-      params[0].getStructure &&
-      (() => {
-        try {
-          const paramText = params[0].getText();
-          return paramText.trim().startsWith('{');
-        } catch {
-          return false;
+      return doc;
+    };
+    if (dryRun) {
+      const { internal: internalCalls, external: externalCalls } =
+        splitCalls(confirmed);
+
+      const editsByFile = new Map<string, text.TextEdit[]>();
+      const addEdit = (fp: string, edit: text.TextEdit): void => {
+        editsByFile.set(fp, [...(editsByFile.get(fp) || []), edit]);
+      };
+      const report: DryRunReport = {
+        function: {
+          file: workspaceRelative,
+          name: fnName,
+          params: paramNames,
+        },
+        alreadyConverted: alreadyConvertedCount,
+        confirmed: [],
+        fuzzy: [],
+        incompatible: [],
+      };
+
+      const functionDoc = await getDoc(filePath);
+      addEdit(filePath, buildFunctionEdit(internalCalls));
+      if (typeDeclarationEdit) {
+        addEdit(filePath, typeDeclarationEdit);
+      }
+      for (const c of internalCalls) {
+        report.confirmed.push(
+          buildDryRunCall(c, functionDoc, buildCandidateReplacement(c))
+        );
+      }
+      for (const c of externalCalls) {
+        const doc = await getDoc(c.filePath);
+        const planned = planCall(c);
+        if (!planned) {
+          report.incompatible.push(
+            buildDryRunCall({ ...c, reason: 'no-parsed-args' }, doc, null)
+          );
+          continue;
         }
-      })();
-
-    const hasObjectVariableDestructure = detectObjectVariableDestructure(
-      targetFunction
-    );
+        addEdit(c.filePath, planned);
+        report.confirmed.push(buildDryRunCall(c, doc, planned.newText));
+      }
 
-    if (hasObjectDestructuring || hasObjectVariableDestructure) {
-      void vscode.window.showInformationMessage(
-        'Objectify Params: This function already uses object parameter destructuring.'
+      // Fuzzy calls need review, so they are reported but not diffed
+      const confirmedKeys = new Set(
+        confirmed.map((c) => `${c.filePath}:${c.start}:${c.end}`)
       );
-      return;
-    }
+      for (const c of fuzzy) {
+        if (confirmedKeys.has(`${c.filePath}:${c.start}:${c.end}`)) {
+          continue;
+        }
+        const doc = await getDoc(c.filePath);
+        const planned = planCall(c);
+        if (planned) {
+          report.fuzzy.push(buildDryRunCall(c, doc, planned.newText));
+        } else {
+          report.incompatible.push(buildDryRunCall(c, doc, null));
+        }
+      }
 
-    if (objectVariableName) {
-      const bodyNode =
-        typeof targetFunction.getBody === 'function'
-          ? targetFunction.getBody()
-          : null;
-      const bodyKind =
-        bodyNode && typeof bodyNode.getKind === 'function'
-          ? bodyNode.getKind()
-          : null;
-      if (bodyKind !== SyntaxKind.Block) {
-        void vscode.window.showInformationMessage(
-          'Objectify Params: Object Variable requires the function to use a block body (wrap arrow functions in braces).'
+      let diffText = '';
+      for (const [fp, edits] of editsByFile) {
+        const doc = await getDoc(fp);
+        // Paths include the folder name in a multi-root workspace
+        diffText += text.buildUnifiedDiff(
+          vscode.workspace.asRelativePath(fp),
+          doc.getText(),
+          edits
         );
-        return;
       }
-    }
-
-    // Resolve target symbol
-    const { resolvedTarget, canProceedWithoutSymbol } = parse.resolveSymbol(
-      project,
-      targetFunction,
-      targetVariableDeclaration,
-      fnName
-    );
-
-    if (!resolvedTarget && !canProceedWithoutSymbol) {
-      void vscode.window.showInformationMessage(
-        'Objectify Params: This function cannot be converted — cannot resolve symbol for the selected function.'
-      );
-      return;
-    }
-
-    // Collect all calls to the target function
-    const callCollection = await parse.collectCalls(
-      project,
-      workspaceRoot,
-      fnName,
-      resolvedTarget,
-      paramNames,
-      originalEditor,
-      originalSelection,
-      filePath,
-      targetStart,
-      targetEnd,
-      isTargetFunctionNested,
-      targetVariableDeclaration
-        ? targetVariableDeclaration.getStart()
-        : undefined,
-      targetIsConstructor,
-      targetRequiresPropertyAccess
-    );
-
-    if (callCollection.shouldAbort) {
-      void vscode.window.showInformationMessage(
-        'Objectify Params: Operation cancelled — no changes made.'
-      );
+      await writeDryRunOutput(workspaceRoot, diffText, report);
       return;
     }
 
-    let confirmed = callCollection.confirmed;
-    let fuzzy = callCollection.fuzzy;
-    const alreadyConvertedCount = callCollection.alreadyConvertedCount || 0;
-
-    const transformOptions = {
-      objectVariableName,
-      preserveTypes,
-    };
-
-    const applyFunctionTransform = (
-      sourceFnText: string,
-      paramTypeText: string
-    ): string => {
-      const transformed = text.transformFunctionText(
-        sourceFnText,
-        params,
-        paramNames,
-        paramTypeText,
-        isTypeScriptFile,
-        isRestParameter,
-        transformOptions
-      );
-      if (objectVariableName) {
-        return text.insertObjectVariableDestructureLine(
-          transformed.text,
-          transformed.destructuredParams,
-          objectVariableName
-        );
-      }
-      return transformed.text;
-    };
-
     if (confirmed.length === 0 && fuzzy.length === 0) {
       // Check if we found calls but they were all already converted
       if (alreadyConvertedCount > 0) {
@@ -435,27 +1706,22 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
 
       log('No calls found, converting function signature only');
 
-      const paramTypeText = parse.extractParameterTypes(
-        params,
-        paramNames,
-        sourceFile,
-        isRestParameter,
-        restTupleElements
-      );
 
       const newFnText = applyFunctionTransform(
         originalFunctionText,
         paramTypeText
       );
 
+      const newEditText = buildEditText(newFnText);
+
       let aborted = false;
       if (showPreviews) {
         aborted = await dialogs.showFunctionConversionDialog(
           filePath,
-          targetStart,
+          editStart,
           targetEnd,
-          originalFunctionText,
-          newFnText,
+          originalEditText,
+          newEditText,
           originalEditor,
           originalSelection,
           highlightStart,
@@ -470,22 +1736,23 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
       const edit = new vscode.WorkspaceEdit();
       const uri = vscode.Uri.file(filePath);
       const doc = await vscode.workspace.openTextDocument(uri);
-      const startPos = doc.positionAt(targetStart);
+      const startPos = doc.positionAt(editStart);
       const endPos = doc.positionAt(targetEnd);
-      edit.replace(uri, new vscode.Range(startPos, endPos), newFnText);
+      edit.replace(uri, new vscode.Range(startPos, endPos), newEditText);
+      addTypeDeclarationEdit(edit, doc);
 
       const success = await vscode.workspace.applyEdit(edit);
       if (success) {
         try {
           await text.highlightConvertedFunction(
             filePath,
-            targetStart,
-            targetEnd,
-            newFnText,
+            editStart + typeDeclarationShift,
+            targetEnd + typeDeclarationShift,
+            newEditText,
             originalEditor,
             originalSelection,
             highlightDelay,
-            highlightStart,
+            highlightStart + typeDeclarationShift,
             Boolean(objectVariableName)
           );
         } catch (e) {
@@ -499,24 +1766,18 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
       return;
     }
 
-    if (fuzzy.length === 0 && confirmed.length > 0) {
-      const paramTypeText = parse.extractParameterTypes(
-        params,
-        paramNames,
-        sourceFile,
-        isRestParameter,
-        restTupleElements
-      );
+    // With previews on, the review panel lists confirmed calls too
+    if (fuzzy.length === 0 && confirmed.length > 0 && !(usePanel && showPreviews)) {
       const buildReplacement = (
         exprText: string,
-        argsTextArr: string[] | null
+        argsTextArr: string[] | null,
+        call?: any
       ) =>
-        text.buildCallReplacement(
+        buildCandidateReplacement({
+          ...call,
           exprText,
-          argsTextArr,
-          paramNames,
-          optionalParamNames
-        );
+          argsText: argsTextArr,
+        });
 
       const { internal: internalCalls, external: externalCalls } =
         splitInternalCalls(confirmed, filePath, targetStart, targetEnd);
@@ -526,9 +1787,8 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
         targetStart,
         buildReplacement
       );
-      const convertedFunctionText = applyFunctionTransform(
-        functionTextWithInternal,
-        paramTypeText
+      const convertedFunctionText = buildEditText(
+        applyFunctionTransform(functionTextWithInternal, paramTypeText)
       );
 
       let aborted = false;
@@ -536,9 +1796,9 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
       if (showPreviews) {
         aborted = await dialogs.showFunctionConversionDialog(
           filePath,
-          targetStart,
+          editStart,
           targetEnd,
-          originalFunctionText,
+          originalEditText,
           convertedFunctionText,
           originalEditor,
           originalSelection,
@@ -561,7 +1821,8 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
           optionalParamNames,
           highlightDelay,
           originalEditor,
-          originalSelection
+          originalSelection,
+          buildCandidateReplacement
         );
 
         if (aborted) {
@@ -590,10 +1851,11 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
 
       const funcUri = vscode.Uri.file(filePath);
       const funcDoc = await vscode.workspace.openTextDocument(funcUri);
-      const funcStartPos = funcDoc.positionAt(targetStart);
+      const funcStartPos = funcDoc.positionAt(editStart);
       const funcEndPos = funcDoc.positionAt(targetEnd);
       edit.replace(funcUri, new vscode.Range(funcStartPos, funcEndPos), convertedFunctionText);
-      log('Added function signature edit at offsets', targetStart, '-', targetEnd);
+      addTypeDeclarationEdit(edit, funcDoc);
+      log('Added function signature edit at offsets', editStart, '-', targetEnd);
 
       for (const c of externalCalls) {
         const uri = vscode.Uri.file(c.filePath);
@@ -602,7 +1864,7 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
         const startPos = doc.positionAt(c.start);
         const endPos = doc.positionAt(c.end);
         const orig = doc.getText().slice(c.start, c.end);
-        const repl = buildReplacement(c.exprText, c.argsText);
+        const repl = buildReplacement(c.exprText, c.argsText, c);
         log('EDIT #' + (externalCalls.indexOf(c) + 1), ':', c.filePath, 'offsets', c.start, '-', c.end);
         log('  exprText:', c.exprText);
         log('  argsText:', JSON.stringify(c.argsText));
@@ -618,14 +1880,14 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
         'file(s) - files are marked dirty, user can save manually'
       );
 
-      let offsetShift = 0;
+      let offsetShift = typeDeclarationShift;
       const targetFilePath = vscode.Uri.file(filePath).fsPath;
 
       for (const c of externalCalls) {
         const callFilePath = vscode.Uri.file(c.filePath).fsPath;
-        if (callFilePath === targetFilePath && c.end <= targetStart) {
+        if (callFilePath === targetFilePath && c.end <= editStart) {
           const orig = c.end - c.start;
-          const repl = buildReplacement(c.exprText, c.argsText).length;
+          const repl = buildReplacement(c.exprText, c.argsText, c).length;
           offsetShift += repl - orig;
         }
       }
@@ -633,7 +1895,7 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
       try {
         await text.highlightConvertedFunction(
           filePath,
-          targetStart + offsetShift,
+          editStart + offsetShift,
           targetEnd + offsetShift,
           convertedFunctionText,
           originalEditor,
@@ -649,7 +1911,9 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
       const totalConvertedCalls = externalCalls.length + internalCalls.length;
       if (totalConvertedCalls > 0) {
         void vscode.window.showInformationMessage(
-          `Objectify Params: Converted ${totalConvertedCalls} call(s) and updated function.`
+          `Objectify Params: Converted ${totalConvertedCalls} call(s)${utils.summarizeByFolder(
+            confirmed.map((c) => c.filePath)
+          )} and updated function.`
         );
       } else {
         void vscode.window.showInformationMessage(
@@ -676,149 +1940,193 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
         initialFuzzyCount - fuzzy.length,
         'fuzzy candidates that matched confirmed calls'
       );
-    fuzzy.sort((a, b) => (b.score || 0) - (a.score || 0));
-
-    let aborted = false;
-
-    log(
-      'showPreviews:',
-      showPreviews,
-      'confirmed.length:',
-      confirmed.length
+    // Review is grouped by workspace folder, most likely calls first
+    fuzzy.sort(
+      (a, b) =>
+        utils.getFolderIndex(a.filePath) - utils.getFolderIndex(b.filePath) ||
+        (b.score || 0) - (a.score || 0)
     );
 
-    // Show function conversion dialog if previews are enabled
-    if (showPreviews && (confirmed.length > 0 || fuzzy.length > 0)) {
-      // Build the converted function text for preview
-      const paramTypeText = parse.extractParameterTypes(
-        params,
+    let acceptedFuzzy: typeof fuzzy = [];
+    if (usePanel) {
+      const reviewed = [...confirmed, ...fuzzy];
+      const items = await buildReviewItems(
+        confirmed,
+        fuzzy,
         paramNames,
-        sourceFile,
-        isRestParameter,
-        restTupleElements
+        planCall,
+        getDoc
       );
-      const newFnText = applyFunctionTransform(
-        originalFunctionText,
-        paramTypeText
-      );
-
-      aborted = await dialogs.showFunctionConversionDialog(
-        filePath,
-        targetStart,
-        targetEnd,
-        originalFunctionText,
-        newFnText,
-        originalEditor,
-        originalSelection,
-        highlightStart,
-        Boolean(objectVariableName)
-      );
-
-      if (aborted) {
+      const selectedIds = await panel.showReviewPanel({
+        functionName: fnName || 'function',
+        functionFile: workspaceRelative,
+        functionBefore: originalEditText,
+        functionAfter: buildEditText(
+          applyFunctionTransform(originalFunctionText, paramTypeText)
+        ),
+        items,
+      });
+      if (!selectedIds) {
         void vscode.window.showInformationMessage(
           'Objectify Params: Operation cancelled — no changes made.'
         );
         return;
       }
-    }
-
-    // Process fuzzy calls first, then confirmed calls (when monitoring is enabled)
-
-    const totalCalls = confirmed.length + fuzzy.length;
-    const totalFuzzy = fuzzy.length;
-    let callIdx = 0; // Start fuzzy calls at index 1
-    const acceptedFuzzy: typeof fuzzy = []; // Track which fuzzy calls were accepted
-    for (const candidate of fuzzy) {
-      callIdx++;
+      const selected = reviewed.filter((c, i) => selectedIds.has(i));
+      confirmed = confirmed.filter((c) => selected.includes(c));
+      acceptedFuzzy = fuzzy.filter((c) => selected.includes(c));
+    } else {
+      let aborted = false;
 
-      // Review the fuzzy call with user
-      const reviewResult = await dialogs.reviewFuzzyCall(
-        candidate,
-        callIdx,
-        totalCalls,
-        paramNames,
-        highlightDelay
+      log(
+        'showPreviews:',
+        showPreviews,
+        'confirmed.length:',
+        confirmed.length
       );
 
-      if (reviewResult === 'abort') {
-        void vscode.window.showInformationMessage(
-          'Objectify Params: Operation cancelled — no changes made.'
+      // Show function conversion dialog if previews are enabled
+      if (showPreviews && (confirmed.length > 0 || fuzzy.length > 0)) {
+        // Build the converted function text for preview
+        const newFnText = buildEditText(
+          applyFunctionTransform(originalFunctionText, paramTypeText)
         );
-        if (originalEditor && originalSelection) {
-          await vscode.window.showTextDocument(originalEditor.document, {
-            selection: originalSelection,
-            preserveFocus: false,
-          });
+
+        aborted = await dialogs.showFunctionConversionDialog(
+          filePath,
+          editStart,
+          targetEnd,
+          originalEditText,
+          newFnText,
+          originalEditor,
+          originalSelection,
+          highlightStart,
+          Boolean(objectVariableName)
+        );
+
+        if (aborted) {
+          void vscode.window.showInformationMessage(
+            'Objectify Params: Operation cancelled — no changes made.'
+          );
+          return;
         }
-        return;
       }
 
-      if (reviewResult === 'skip') {
-        continue;
-      }
+      // Process fuzzy calls first, then confirmed calls (when monitoring is enabled)
+
+      const totalCalls = confirmed.length + fuzzy.length;
+      const totalFuzzy = fuzzy.length;
+      let callIdx = 0; // Start fuzzy calls at index 1
+      // A .bind() and the calls of its result follow the first decision
+      const groupDecisions = new Map<number, boolean>();
+      // Track which fuzzy calls were accepted
+      for (const candidate of fuzzy) {
+        callIdx++;
+
+        if (
+          candidate.group !== undefined &&
+          groupDecisions.has(candidate.group)
+        ) {
+          if (groupDecisions.get(candidate.group)) {
+            acceptedFuzzy.push(candidate);
+          }
+          continue;
+        }
 
-      // User chose to convert this fuzzy call
-      acceptedFuzzy.push(candidate);
+        // Review the fuzzy call with user
+        const reviewResult = await dialogs.reviewFuzzyCall(
+          candidate,
+          callIdx,
+          totalCalls,
+          paramNames,
+          highlightDelay
+        );
 
-      // Show preview of the conversion
-      await dialogs.showFuzzyConversionPreview(
-        candidate,
-        paramNames,
-        optionalParamNames,
-        highlightDelay,
-        originalEditor,
-        originalSelection
-      );
-    }
+        if (reviewResult === 'abort') {
+          void vscode.window.showInformationMessage(
+            'Objectify Params: Operation cancelled — no changes made.'
+          );
+          if (originalEditor && originalSelection) {
+            await vscode.window.showTextDocument(originalEditor.document, {
+              selection: originalSelection,
+              preserveFocus: false,
+            });
+          }
+          return;
+        }
 
-    // If previews enabled, show preview for confirmed calls AFTER fuzzy calls
-    if (showPreviews && confirmed.length > 0 && !aborted) {
-      log('Entering confirmed preview block');
-      aborted = await dialogs.monitorConfirmedCalls(
-        confirmed,
-        totalCalls,
-        fuzzy.length,
-        paramNames,
-        optionalParamNames,
-        highlightDelay,
-        originalEditor,
-        originalSelection
-      );
+        if (candidate.group !== undefined) {
+          groupDecisions.set(candidate.group, reviewResult !== 'skip');
+        }
+        if (reviewResult === 'skip') {
+          continue;
+        }
+
+        // User chose to convert this fuzzy call
+        acceptedFuzzy.push(candidate);
+
+        // Show preview of the conversion
+        await dialogs.showFuzzyConversionPreview(
+          candidate,
+          paramNames,
+          optionalParamNames,
+          highlightDelay,
+          originalEditor,
+          originalSelection,
+          buildCandidateReplacement
+        );
+      }
+
+      // If previews enabled, show preview for confirmed calls AFTER fuzzy calls
+      if (showPreviews && confirmed.length > 0 && !aborted) {
+        log('Entering confirmed preview block');
+        aborted = await dialogs.monitorConfirmedCalls(
+          confirmed,
+          totalCalls,
+          fuzzy.length,
+          paramNames,
+          optionalParamNames,
+          highlightDelay,
+          originalEditor,
+          originalSelection,
+          buildCandidateReplacement
+        );
+
+        if (aborted) {
+          void vscode.window.showInformationMessage(
+            'Objectify Params: Operation cancelled — no changes made.'
+          );
+          return;
+        }
+      }
 
       if (aborted) {
+        log('Aborted after confirmed monitoring');
         void vscode.window.showInformationMessage(
           'Objectify Params: Operation cancelled — no changes made.'
         );
+        if (originalEditor && originalSelection) {
+          await vscode.window.showTextDocument(originalEditor.document, {
+            selection: originalSelection,
+            preserveFocus: false,
+          });
+        }
         return;
       }
     }
 
-    if (aborted) {
-      log('Aborted after confirmed monitoring');
-      void vscode.window.showInformationMessage(
-        'Objectify Params: Operation cancelled — no changes made.'
-      );
-      if (originalEditor && originalSelection) {
-        await vscode.window.showTextDocument(originalEditor.document, {
-          selection: originalSelection,
-          preserveFocus: false,
-        });
-      }
-      return;
-    }
-
     const editAll = new vscode.WorkspaceEdit();
     const docsToSaveAll = new Map<string, vscode.TextDocument>();
     const buildReplacementAll = (
       exprText: string,
-      argsTextArr: string[] | null
+      argsTextArr: string[] | null,
+      call?: any
     ) =>
-      text.buildCallReplacement(
+      buildCandidateReplacement({
+        ...call,
         exprText,
-        argsTextArr,
-        paramNames,
-        optionalParamNames
-      );
+        argsText: argsTextArr,
+      });
 
     const allCandidates = [...confirmed, ...acceptedFuzzy];
     log(
@@ -835,24 +2143,17 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
       log('No candidates to convert after fuzzy review - converting function signature only');
       
       // Build function signature edit
-      const paramTypeText = parse.extractParameterTypes(
-        params,
-        paramNames,
-        sourceFile,
-        isRestParameter,
-        restTupleElements
-      );
-      const newFnText = applyFunctionTransform(
-        originalFunctionText,
-        paramTypeText
+      const newFnText = buildEditText(
+        applyFunctionTransform(originalFunctionText, paramTypeText)
       );
 
       const edit = new vscode.WorkspaceEdit();
       const uri = vscode.Uri.file(filePath);
       const doc = await vscode.workspace.openTextDocument(uri);
-      const startPos = doc.positionAt(targetStart);
+      const startPos = doc.positionAt(editStart);
       const endPos = doc.positionAt(targetEnd);
       edit.replace(uri, new vscode.Range(startPos, endPos), newFnText);
+      addTypeDeclarationEdit(edit, doc);
 
       const success = await vscode.workspace.applyEdit(edit);
       if (success) {
@@ -860,13 +2161,13 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
         try {
           await text.highlightConvertedFunction(
             filePath,
-            targetStart,
-            targetEnd,
+            editStart + typeDeclarationShift,
+            targetEnd + typeDeclarationShift,
             newFnText,
             originalEditor,
             originalSelection,
             highlightDelay,
-            highlightStart,
+            highlightStart + typeDeclarationShift,
             Boolean(objectVariableName)
           );
         } catch (e) {
@@ -881,28 +2182,32 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
     }
 
     // Build function signature edit first (before applying any edits)
-    const paramTypeText2 = parse.extractParameterTypes(
-      params,
-      paramNames,
-      sourceFile,
-      isRestParameter,
-      restTupleElements
-    );
-    const newFnText2 = applyFunctionTransform(
-      originalFunctionText,
-      paramTypeText2
+    // Calls inside the function body are rewritten within its replacement text
+    const { internal: internalAll, external: externalAll } =
+      splitInternalCalls(allCandidates, filePath, targetStart, targetEnd);
+    const newFnText2 = buildEditText(
+      applyFunctionTransform(
+        applyInternalCallReplacements(
+          originalFunctionText,
+          internalAll,
+          targetStart,
+          buildReplacementAll
+        ),
+        paramTypeText
+      )
     );
     
     // Add function signature edit to the WorkspaceEdit
     const funcUri = vscode.Uri.file(filePath);
     const funcDoc = await vscode.workspace.openTextDocument(funcUri);
-    const funcStartPos = funcDoc.positionAt(targetStart);
+    const funcStartPos = funcDoc.positionAt(editStart);
     const funcEndPos = funcDoc.positionAt(targetEnd);
     editAll.replace(funcUri, new vscode.Range(funcStartPos, funcEndPos), newFnText2);
-    log('Added function signature edit at offsets', targetStart, '-', targetEnd);
+    addTypeDeclarationEdit(editAll, funcDoc);
+    log('Added function signature edit at offsets', editStart, '-', targetEnd);
 
-    log('=== MIXED PATH: About to apply', allCandidates.length, 'call edits ===');
-    for (const c of allCandidates) {
+    log('=== MIXED PATH: About to apply', externalAll.length, 'call edits ===');
+    for (const c of externalAll) {
       if (
         c.filePath &&
         typeof c.start === 'number' &&
@@ -914,32 +2219,13 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
         const startP = doc.positionAt(c.start);
         const endP = doc.positionAt(c.end);
         const orig = doc.getText().slice(c.start, c.end);
-        const replAll = buildReplacementAll(c.exprText, c.argsText);
-        log('EDIT #' + (allCandidates.indexOf(c) + 1), ':', c.filePath, 'offsets', c.start, '-', c.end);
+        const replAll = buildReplacementAll(c.exprText, c.argsText, c);
+        log('EDIT #' + (externalAll.indexOf(c) + 1), ':', c.filePath, 'offsets', c.start, '-', c.end);
         log('  exprText:', c.exprText);
         log('  argsText:', JSON.stringify(c.argsText));
         log('  ---orig---\n  ' + orig);
         log('  ---repl---\n  ' + replAll);
         editAll.replace(uri, new vscode.Range(startP, endP), replAll);
-      } else if (c.filePath && typeof c.rangeStart === 'number') {
-        const uri = vscode.Uri.file(c.filePath);
-        const doc = await vscode.workspace.openTextDocument(uri);
-        docsToSaveAll.set(c.filePath, doc);
-        const templateResult = text.buildTemplateCallReplacement(
-          doc.getText(),
-          c.rangeStart,
-          paramNames,
-          optionalParamNames
-        );
-        if (templateResult) {
-          const startPos = doc.positionAt(templateResult.start);
-          const endPos = doc.positionAt(templateResult.end);
-          editAll.replace(
-            uri,
-            new vscode.Range(startPos, endPos),
-            templateResult.replacement
-          );
-        }
       }
     }
 
@@ -955,13 +2241,13 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
       try {
         await text.highlightConvertedFunction(
           filePath,
-          targetStart,
-          targetEnd,
+          editStart + typeDeclarationShift,
+          targetEnd + typeDeclarationShift,
           newFnText2,
           originalEditor,
           originalSelection,
           highlightDelay,
-          highlightStart,
+          highlightStart + typeDeclarationShift,
           Boolean(objectVariableName)
         );
       } catch (e) {
@@ -972,7 +2258,436 @@ export async function convertCommandHandler(...args: any[]): Promise<void> {
     void vscode.window.showInformationMessage(
       `Objectify Params: Converted ${
         confirmed.length + acceptedFuzzy.length
-      } call(s) and updated function.`
+      } call(s)${utils.summarizeByFolder(
+        [...confirmed, ...acceptedFuzzy].map((c) => c.filePath)
+      )} and updated function.`
+    );
+  } catch (err) {
+    console.error(err);
+    void vscode.window.showErrorMessage(
+      'An error occurred: ' + (err.message || err)
+    );
+  }
+}
+
+function isObjectVariableUsedElsewhere(
+  targetFunction: any,
+  paramName: string,
+  declaration: any
+): boolean {
+  const body = targetFunction.getBody ? targetFunction.getBody() : null;
+  if (!body) {
+    return false;
+  }
+  const initializer = declaration.getInitializer
+    ? declaration.getInitializer()
+    : null;
+  return body
+    .getDescendantsOfKind(SyntaxKind.Identifier)
+    .some((id: any) => id.getText() === paramName && id !== initializer);
+}
+
+/**
+ * Reverse of convertCommandHandler: turn an object parameter (inline
+ * destructuring or object variable) back into positional parameters and
+ * rewrite `fn({ a, b: x })` calls to `fn(a, x)`.
+ */
+export async function positionalizeCommandHandler(): Promise<void> {
+  const context = utils.getWorkspaceContext();
+  if (!context) return;
+
+  const { editor, workspaceRoot, filePath } = context;
+  const workspaceRelative = vscode.workspace.asRelativePath(filePath, false);
+
+  const includeInfo = utils.isFileIncludedByConfig(filePath, workspaceRoot);
+  if (!includeInfo.included) {
+    void vscode.window.showInformationMessage(
+      `Objectify Params: File "${workspaceRelative}" not included in configured patterns. include=${includeInfo.includeGlobs} exclude=${includeInfo.excludeGlobs}`
+    );
+    return;
+  }
+
+  const originalEditor = vscode.window.activeTextEditor;
+  const originalSelection = originalEditor
+    ? originalEditor.selection
+    : undefined;
+  const cursorOffset = editor.document.offsetAt(editor.selection.active);
+
+  const folderRoots = await utils.selectWorkspaceFolders(workspaceRoot);
+  if (!folderRoots) {
+    return;
+  }
+
+  try {
+    const project = await cache.getProject(
+      workspaceRoot,
+      filePath,
+      folderRoots
+    );
+    const sourceFile = sfc.getSourceFile(project, filePath);
+    if (!sourceFile) {
+      void vscode.window.showInformationMessage(
+        `Objectify Params: File "${workspaceRelative}" not included in configured patterns. include=${includeInfo.includeGlobs} exclude=${includeInfo.excludeGlobs}`
+      );
+      return;
+    }
+
+    const isTypeScriptFile = isTypeScriptSourceFile(sourceFile);
+
+    const functionResult = functions.findTargetFunction(
+      sourceFile,
+      cursorOffset
+    );
+    if (!functionResult) {
+      return;
+    }
+
+    const { targetFunction, targetVariableDeclaration, params, fnName } =
+      functionResult;
+    const targetKind =
+      typeof targetFunction.getKind === 'function'
+        ? targetFunction.getKind()
+        : undefined;
+    const targetIsConstructor = targetKind === SyntaxKind.Constructor;
+    const targetRequiresPropertyAccess =
+      targetKind === SyntaxKind.MethodDeclaration &&
+      typeof targetFunction.isStatic === 'function' &&
+      targetFunction.isStatic();
+
+    const cfg = vscode.workspace.getConfiguration('objectifyParams');
+    const showPreviews = cfg.get('1.showPreviews') as boolean;
+    const highlightDelay = (cfg.get('2.highlightDelay') as number) ?? 1000;
+    const usePanel = (cfg.get('10.reviewMode') as string) !== 'dialogs';
+
+    let bindingPattern: any = null;
+    let destructureStatementText: string | null = null;
+    if (hasObjectParamDestructuring(params)) {
+      bindingPattern = params[0].getNameNode();
+    } else {
+      const found = findObjectVariableDestructure(targetFunction);
+      if (found) {
+        if (
+          isObjectVariableUsedElsewhere(
+            targetFunction,
+            found.paramName,
+            found.declaration
+          )
+        ) {
+          void vscode.window.showInformationMessage(
+            `Objectify Params: "${found.paramName}" is used outside its destructuring statement — cannot convert to positional parameters.`
+          );
+          return;
+        }
+        bindingPattern = found.declaration.getNameNode();
+        destructureStatementText = found.statement.getText();
+      }
+    }
+
+    if (!bindingPattern) {
+      void vscode.window.showInformationMessage(
+        'Objectify Params: This function does not use an object parameter.'
+      );
+      return;
+    }
+
+    const properties = functions.extractObjectParamProperties(
+      params[0],
+      bindingPattern
+    );
+    if (!properties) {
+      void vscode.window.showInformationMessage(
+        'Objectify Params: The object parameter uses rest or computed properties — cannot convert to positional parameters.'
+      );
+      return;
+    }
+
+    const paramNames = properties.map((p) => p.propName);
+    const positionalParamsText = functions.buildPositionalParamsText(
+      properties,
+      isTypeScriptFile
+    );
+
+    const targetStart = targetFunction.getStart();
+    const targetEnd = targetFunction.getEnd();
+    const originalFunctionText = targetFunction.getText();
+    const isTargetFunctionNested = isLexicallyNestedFunction(targetFunction);
+
+    let highlightStart = targetStart;
+    if (targetVariableDeclaration) {
+      const nameStart = targetVariableDeclaration.getNameNode().getStart();
+      if (nameStart < targetStart) {
+        highlightStart = nameStart;
+      }
+    }
+
+    const { resolvedTarget, canProceedWithoutSymbol } = parse.resolveSymbol(
+      project,
+      targetFunction,
+      targetVariableDeclaration,
+      fnName
+    );
+
+    if (!resolvedTarget && !canProceedWithoutSymbol) {
+      void vscode.window.showInformationMessage(
+        'Objectify Params: This function cannot be converted — cannot resolve symbol for the selected function.'
+      );
+      return;
+    }
+
+    const callCollection = await parse.collectCalls(
+      project,
+      workspaceRoot,
+      fnName,
+      resolvedTarget,
+      paramNames,
+      originalEditor,
+      originalSelection,
+      filePath,
+      targetStart,
+      targetEnd,
+      isTargetFunctionNested,
+      targetVariableDeclaration
+        ? targetVariableDeclaration.getStart()
+        : undefined,
+      targetIsConstructor,
+      targetRequiresPropertyAccess,
+      true,
+      folderRoots
+    );
+
+    if (callCollection.shouldAbort) {
+      void vscode.window.showInformationMessage(
+        'Objectify Params: Operation cancelled — no changes made.'
+      );
+      return;
+    }
+
+    let confirmed = callCollection.confirmed;
+    // .call/.apply/.bind calls are left for the user to rewrite
+    const callApplyBindCalls = callCollection.fuzzy.filter(
+      (f) => f.reason === 'call-apply-bind'
+    );
+    const fuzzy = callCollection.fuzzy
+      .filter((f) => f.reason !== 'call-apply-bind')
+      .sort(
+        (a, b) =>
+          utils.getFolderIndex(a.filePath) -
+            utils.getFolderIndex(b.filePath) ||
+          (b.score || 0) - (a.score || 0)
+      );
+
+    const buildReplacement = (candidate: any): string =>
+      text.buildPositionalCallReplacement(
+        candidate.exprText,
+        candidate.objectProps ?? null,
+        candidate.argsText ? candidate.argsText[0] : undefined,
+        paramNames
+      );
+
+    const buildFunctionText = (calls: any[]): string => {
+      const { internal } = splitInternalCalls(
+        calls,
+        filePath,
+        targetStart,
+        targetEnd
+      );
+      let fnText = applyInternalCallReplacements(
+        originalFunctionText,
+        internal,
+        targetStart,
+        (exprText, argsTextArr, call) =>
+          buildReplacement({ ...call, exprText, argsText: argsTextArr })
+      );
+      if (destructureStatementText) {
+        fnText = text.removeObjectVariableDestructureLine(
+          fnText,
+          destructureStatementText
+        );
+      }
+      return text.transformFunctionToPositional(
+        fnText,
+        params,
+        targetStart,
+        positionalParamsText
+      );
+    };
+
+    let acceptedFuzzy: typeof fuzzy = [];
+    if (usePanel) {
+      const docs = new Map<string, vscode.TextDocument>();
+      const getDoc = async (fp: string): Promise<vscode.TextDocument> => {
+        let doc = docs.get(fp);
+        if (!doc) {
+          doc = await vscode.workspace.openTextDocument(vscode.Uri.file(fp));
+          docs.set(fp, doc);
+        }
+        return doc;
+      };
+      const reviewed = [...confirmed, ...fuzzy];
+      const items = await buildReviewItems(
+        confirmed,
+        fuzzy,
+        paramNames,
+        (c) => ({ start: c.start, end: c.end, newText: buildReplacement(c) }),
+        getDoc
+      );
+      const selectedIds = await panel.showReviewPanel({
+        functionName: fnName || 'function',
+        functionFile: workspaceRelative,
+        functionBefore: originalFunctionText,
+        functionAfter: buildFunctionText([]),
+        items,
+      });
+      if (!selectedIds) {
+        void vscode.window.showInformationMessage(
+          'Objectify Params: Operation cancelled — no changes made.'
+        );
+        return;
+      }
+      const selected = reviewed.filter((c, i) => selectedIds.has(i));
+      confirmed = confirmed.filter((c) => selected.includes(c));
+      acceptedFuzzy = fuzzy.filter((c) => selected.includes(c));
+    } else {
+      if (showPreviews) {
+        const aborted = await dialogs.showFunctionConversionDialog(
+          filePath,
+          targetStart,
+          targetEnd,
+          originalFunctionText,
+          buildFunctionText([]),
+          originalEditor,
+          originalSelection,
+          highlightStart,
+          false
+        );
+        if (aborted) {
+          return;
+        }
+      }
+
+      const totalCalls = confirmed.length + fuzzy.length;
+      let callIdx = 0;
+      for (const candidate of fuzzy) {
+        callIdx++;
+        const reviewResult = await dialogs.reviewFuzzyCall(
+          candidate,
+          callIdx,
+          totalCalls,
+          paramNames,
+          highlightDelay
+        );
+        if (reviewResult === 'abort') {
+          void vscode.window.showInformationMessage(
+            'Objectify Params: Operation cancelled — no changes made.'
+          );
+          if (originalEditor && originalSelection) {
+            await vscode.window.showTextDocument(originalEditor.document, {
+              selection: originalSelection,
+              preserveFocus: false,
+            });
+          }
+          return;
+        }
+        if (reviewResult === 'skip') {
+          continue;
+        }
+        acceptedFuzzy.push(candidate);
+        await dialogs.showFuzzyConversionPreview(
+          candidate,
+          paramNames,
+          [],
+          highlightDelay,
+          originalEditor,
+          originalSelection,
+          buildReplacement
+        );
+      }
+
+      if (showPreviews && confirmed.length > 0) {
+        const aborted = await dialogs.monitorConfirmedCalls(
+          confirmed,
+          totalCalls,
+          fuzzy.length,
+          paramNames,
+          [],
+          highlightDelay,
+          originalEditor,
+          originalSelection,
+          buildReplacement
+        );
+        if (aborted) {
+          void vscode.window.showInformationMessage(
+            'Objectify Params: Operation cancelled — no changes made.'
+          );
+          return;
+        }
+      }
+    }
+
+    const allCandidates = [...confirmed, ...acceptedFuzzy];
+    const { internal: internalCalls, external: externalCalls } =
+      splitInternalCalls(allCandidates, filePath, targetStart, targetEnd);
+    const newFnText = buildFunctionText(allCandidates);
+
+    const edit = new vscode.WorkspaceEdit();
+    const funcUri = vscode.Uri.file(filePath);
+    const funcDoc = await vscode.workspace.openTextDocument(funcUri);
+    edit.replace(
+      funcUri,
+      new vscode.Range(
+        funcDoc.positionAt(targetStart),
+        funcDoc.positionAt(targetEnd)
+      ),
+      newFnText
+    );
+
+    let offsetShift = 0;
+    const targetFilePath = funcUri.fsPath;
+    for (const c of externalCalls) {
+      const uri = vscode.Uri.file(c.filePath);
+      const doc = await vscode.workspace.openTextDocument(uri);
+      const repl = buildReplacement(c);
+      log('EDIT (positional):', c.filePath, 'offsets', c.start, '-', c.end);
+      log('  ---repl---\n  ' + repl);
+      edit.replace(
+        uri,
+        new vscode.Range(doc.positionAt(c.start), doc.positionAt(c.end)),
+        repl
+      );
+      if (uri.fsPath === targetFilePath && c.end <= targetStart) {
+        offsetShift += repl.length - (c.end - c.start);
+      }
+    }
+
+    const ok = await vscode.workspace.applyEdit(edit);
+    log('applyEdit(positional) result:', ok);
+
+    if (ok) {
+      try {
+        await text.highlightConvertedFunction(
+          filePath,
+          targetStart + offsetShift,
+          targetEnd + offsetShift,
+          newFnText,
+          originalEditor,
+          originalSelection,
+          highlightDelay,
+          highlightStart + offsetShift,
+          false
+        );
+      } catch (e) {
+        log('error highlighting function', e);
+      }
+    }
+
+    const convertedCount = externalCalls.length + internalCalls.length;
+    const callApplyBindNote = callApplyBindCalls.length
+      ? ` ${callApplyBindCalls.length} .call/.apply/.bind call(s) must be updated manually.`
+      : '';
+    void vscode.window.showInformationMessage(
+      `Objectify Params: Converted ${convertedCount} call(s)${utils.summarizeByFolder(
+        [...externalCalls, ...internalCalls].map((c) => c.filePath)
+      )} to positional arguments and updated function.${callApplyBindNote}`
     );
   } catch (err) {
     console.error(err);
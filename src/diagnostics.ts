@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { SyntaxKind } from 'ts-morph';
+import * as functions from './functions';
+import * as parse from './parse';
+import * as utils from './utils';
+
+const { log } = utils.getLog('diag');
+
+export const DIAGNOSTIC_SOURCE = 'Objectify Params';
+export const LONG_PARAM_LIST_CODE = 'long-param-list';
+
+const SUPPORTED_LANGUAGES = new Set([
+  'typescript',
+  'typescriptreact',
+  'javascript',
+  'javascriptreact',
+]);
+
+const SEVERITIES: Record<string, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+};
+
+const UPDATE_DELAY = 500;
+
+interface DiagnosticOptions {
+  enabled: boolean;
+  maxParams: number;
+  severity: vscode.DiagnosticSeverity;
+  exportedOnly: boolean;
+}
+
+function getOptions(document: vscode.TextDocument): DiagnosticOptions {
+  const cfg = vscode.workspace.getConfiguration(
+    'objectifyParams',
+    document.uri
+  );
+  return {
+    enabled: Boolean(cfg.get('11.longParamDiagnostics')),
+    maxParams: utils.getMaxParams(document.uri.fsPath),
+    severity:
+      SEVERITIES[cfg.get('13.diagnosticSeverity') as string] ??
+      vscode.DiagnosticSeverity.Information,
+    exportedOnly: cfg.get('14.diagnosticScope') === 'exported',
+  };
+}
+
+/** The name is flagged rather than the whole signature */
+function getNameNode(func: any, varDecl: any | null): any {
+  if (func.getKind() === SyntaxKind.Constructor) {
+    return func.getFirstChildByKind(SyntaxKind.ConstructorKeyword) ?? func;
+  }
+  return (
+    func.getNameNode?.() ??
+    varDecl?.getNameNode() ??
+    functions.getCommonJsExportNameNode(func) ??
+    func
+  );
+}
+
+function computeDiagnostics(
+  document: vscode.TextDocument,
+  options: DiagnosticOptions
+): vscode.Diagnostic[] {
+  const sourceFile = parse.getSyntaxSourceFile(document);
+  const diagnostics: vscode.Diagnostic[] = [];
+  for (const { func, varDecl } of functions.getFunctionNodes(sourceFile)) {
+    // Overload signatures are counted through their implementation
+    if (typeof func.isOverload === 'function' && func.isOverload()) continue;
+    const paramCount = func.getParameters().length;
+    if (paramCount <= options.maxParams) continue;
+    const fnName = functions.getFunctionName(func, varDecl);
+    // Anonymous callbacks can't be converted, so they aren't flagged
+    if (!fnName) continue;
+    if (options.exportedOnly && !functions.isExportedFunction(func, varDecl)) continue;
+
+    const nameNode = getNameNode(func, varDecl);
+    const range = new vscode.Range(
+      document.positionAt(nameNode.getStart()),
+      document.positionAt(nameNode.getEnd())
+    );
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      `"${fnName}" has ${paramCount} positional parameters (more than ${options.maxParams}). Consider taking an object.`,
+      options.severity
+    );
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = LONG_PARAM_LIST_CODE;
+    diagnostics.push(diagnostic);
+  }
+  return diagnostics;
+}
+
+/**
+ * Flag named functions with more positional parameters than the
+ * maxParams setting, updated as documents are opened and edited.
+ */
+export function registerDiagnostics(): vscode.Disposable[] {
+  const collection = vscode.languages.createDiagnosticCollection(
+    'objectifyParams'
+  );
+  const pending = new Map<string, NodeJS.Timeout>();
+
+  const update = (document: vscode.TextDocument): void => {
+    if (!SUPPORTED_LANGUAGES.has(document.languageId)) return;
+    const options = getOptions(document);
+    if (!options.enabled) {
+      collection.delete(document.uri);
+      return;
+    }
+    try {
+      collection.set(document.uri, computeDiagnostics(document, options));
+    } catch (e) {
+      log('error computing diagnostics for', document.uri.fsPath, e);
+    }
+  };
+
+  const scheduleUpdate = (document: vscode.TextDocument): void => {
+    const key = document.uri.toString();
+    clearTimeout(pending.get(key));
+    pending.set(
+      key,
+      setTimeout(() => {
+        pending.delete(key);
+        update(document);
+      }, UPDATE_DELAY)
+    );
+  };
+
+  const updateAll = (): void => {
+    vscode.workspace.textDocuments.forEach(update);
+  };
+  updateAll();
+
+  return [
+    collection,
+    vscode.workspace.onDidOpenTextDocument(update),
+    vscode.workspace.onDidChangeTextDocument((e) =>
+      scheduleUpdate(e.document)
+    ),
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      clearTimeout(pending.get(document.uri.toString()));
+      pending.delete(document.uri.toString());
+      collection.delete(document.uri);
+      parse.releaseSyntaxSourceFile(document);
+    }),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration('objectifyParams.11.longParamDiagnostics') ||
+        e.affectsConfiguration('objectifyParams.12.maxParams') ||
+        e.affectsConfiguration('objectifyParams.13.diagnosticSeverity') ||
+        e.affectsConfiguration('objectifyParams.14.diagnosticScope')
+      ) {
+        log('diagnostic settings changed');
+        updateAll();
+      }
+    }),
+    { dispose: () => pending.forEach((timer) => clearTimeout(timer)) },
+  ];
+}
@@ -134,6 +134,7 @@ export async function showFunctionConversionDialog(
 
 /**
  * Monitor and show confirmed calls with preview
+ * buildReplacement overrides the default object-call replacement
  * Returns true if aborted, false otherwise
  */
 export async function monitorConfirmedCalls(
@@ -144,7 +145,8 @@ export async function monitorConfirmedCalls(
   optionalParamFlags: boolean[],
   highlightDelay: number,
   originalEditor: vscode.TextEditor | undefined,
-  originalSelection: vscode.Selection | undefined
+  originalSelection: vscode.Selection | undefined,
+  buildReplacement?: (candidate: any) => string
 ): Promise<boolean> {
   const greenDecoration = vscode.window.createTextEditorDecorationType({
     backgroundColor: 'rgba(100,255,100,0.3)',
@@ -170,12 +172,13 @@ export async function monitorConfirmedCalls(
           vscode.TextEditorRevealType.AtTop
         );
 
-        const repl = text.buildCallReplacement(
-          c.exprText,
-          c.argsText,
-          paramNames,
-          optionalParamFlags
-        );
+        const repl = buildReplacement
+          ? buildReplacement(c)
+          : text.buildCandidateReplacement(
+              c,
+              paramNames,
+              optionalParamFlags
+            );
 
         // Apply the edit temporarily to show preview
         const priorSelections = editor.selections.slice();
@@ -315,6 +318,59 @@ export async function showNameCollisionDialog(
   return true;
 }
 
+/** Review prompt for each fuzzy-call reason, keyed by reason */
+const FUZZY_REASON_MESSAGES: Record<
+  string,
+  (candidate: any, argCount: number) => string
+> = {
+  'too-many-args': () =>
+    `This call has more arguments than the function has parameters and data would be lost.`,
+  'overload-unresolved': (candidate, argCount) =>
+    `Could not tell which overload this call uses, so the first overload that accepts ${argCount} argument(s) was assumed.`,
+  'non-literal-object-arg': () =>
+    `This call passes an object that is not a literal. Each parameter will read a property of that object.`,
+  'non-literal-object-expr': () =>
+    `This call passes the result of an expression. Reading a property for each parameter will evaluate it once per parameter.`,
+  'reordered-object-props': () =>
+    `This call's object lists its properties in another order than the parameters. As positional arguments they will be evaluated in parameter order.`,
+  'unknown-object-props': () =>
+    `This call's object has properties that do not map to a parameter and data would be lost.`,
+  'unsupported-object-literal': () =>
+    `This call's object has properties that do not map to a parameter and data would be lost.`,
+  'apply-non-literal-args': () =>
+    `This .apply() call passes an array that is not a literal. Each property will read an element of that array by position.`,
+  'bind-partial-args': () =>
+    `This .bind() call pre-fills arguments. They will be removed here and added to each call of the bound function, so those calls are converted or skipped with it.`,
+  'bound-partial-args': () =>
+    `This calls a function bound with pre-filled arguments. They will be added to this call's object, so the .bind() call and its other calls are converted or skipped with it.`,
+  'spread-non-tuple': () =>
+    `This call spreads an array whose length is not known. The parameters before the arguments that follow it will read elements of that array by position.`,
+  'spread-repeated-expr': () =>
+    `This call spreads the result of a call. Reading its elements by position will evaluate that call once per parameter.`,
+  'function-value': (candidate) =>
+    `\`${candidate.exprText}\` is passed as a value in:\n\n${candidate.contextText}\n\nWhatever calls it will still pass positional arguments. Converting wraps it in an arrow function that passes an object.`,
+  'bind-unfollowed': () =>
+    `This bound function could not be followed to its calls. It will be wrapped in an arrow function that passes an object.`,
+  'template-call': () =>
+    `This call is in the markup of a Vue or Svelte component, where it can only be matched by name.`,
+  'template-member-call': () =>
+    `This calls a method with the function's name on another object in the markup of a Vue or Svelte component. It may not be this function.`,
+};
+
+/**
+ * Why a fuzzy call needs review, shared by the dialogs and the review panel
+ */
+export function describeFuzzyCall(candidate: any, paramNames: string[]): string {
+  const argCount = candidate.argsText ? candidate.argsText.length : 0;
+  // Check if converting this call would lose arguments
+  const reason =
+    argCount > paramNames.length ? 'too-many-args' : candidate.reason;
+  const reasonMessage = FUZZY_REASON_MESSAGES[reason];
+  return reasonMessage
+    ? reasonMessage(candidate, argCount)
+    : `Is this a call to the correct function?`;
+}
+
 /**
  * Review a fuzzy call and ask user whether to convert it
  * Returns: 'convert', 'skip', or 'abort'
@@ -363,38 +419,15 @@ export async function reviewFuzzyCall(
           new vscode.Range(startPos, endPos),
         ]);
       }
-    } else if (candidate.filePath && typeof candidate.rangeStart === 'number') {
-      doc = await vscode.workspace.openTextDocument(candidate.filePath);
-      await vscode.window.showTextDocument(doc, { preview: true });
-      const editor2 = vscode.window.activeTextEditor;
-      if (editor2) {
-        startPos = doc.positionAt(candidate.rangeStart);
-        endPos = doc.positionAt(candidate.rangeEnd || candidate.rangeStart + 1);
-        const topLine = Math.max(0, startPos.line - 6);
-        const topPos = new vscode.Position(topLine, 0);
-        editor2.revealRange(
-          new vscode.Range(topPos, topPos),
-          vscode.TextEditorRevealType.AtTop
-        );
-        // Show yellow (original) since we don't know user's choice yet
-        editor2.setDecorations(highlightDecoration, [
-          new vscode.Range(startPos, endPos),
-        ]);
-      }
     }
 
-    // Check if converting this call would lose arguments
-    const argCount = candidate.argsText ? candidate.argsText.length : 0;
-    const willLoseArgs = argCount > paramNames.length;
-
     // Build message based on reason
-    let message = `Objectify Params: Processing function call ${callIdx} of ${totalCalls}.\n\n`;
-
-    if (willLoseArgs || candidate.reason === 'too-many-args') {
-      message += `This call has more arguments than the function has parameters and data would be lost. Should it be converted?`;
-    } else {
-      message += `Is this a call to the correct function? Should it be converted?`;
-    }
+    const folderName = utils.getFolderName(candidate.filePath);
+    const folderNote = folderName ? ` in folder "${folderName}"` : '';
+    const message = `Objectify Params: Processing function call ${callIdx} of ${totalCalls}${folderNote}.\n\n${describeFuzzyCall(
+      candidate,
+      paramNames
+    )} Should it be converted?`;
 
     const choice = await vscode.window.showInformationMessage(
       message,
@@ -437,6 +470,7 @@ export async function reviewFuzzyCall(
 
 /**
  * Show preview of fuzzy call conversion with undo
+ * buildReplacement overrides the default object-call replacement
  */
 export async function showFuzzyConversionPreview(
   candidate: any,
@@ -444,7 +478,8 @@ export async function showFuzzyConversionPreview(
   optionalParamFlags: boolean[],
   highlightDelay: number,
   originalEditor: vscode.TextEditor | undefined,
-  originalSelection: vscode.Selection | undefined
+  originalSelection: vscode.Selection | undefined,
+  buildReplacement?: (candidate: any) => string
 ): Promise<void> {
   const restoreOriginalEditor = async () => {
     if (originalEditor) {
@@ -494,54 +529,20 @@ export async function showFuzzyConversionPreview(
       const priorSelections = targetEditor.selections.slice();
       const priorVisibleRanges = targetEditor.visibleRanges.slice();
       
-      // Determine if this is a template call or regular call
-      const isTemplateCall = candidate.argsText === null && candidate.rangeStart !== undefined;
-      
-      let startP: vscode.Position;
-      let endP: vscode.Position;
-      let repl: string;
-      
-      if (isTemplateCall) {
-        // Template call - use string manipulation to build replacement
-        const fullText = doc.getText();
-        const conversionResult = text.buildTemplateCallReplacement(
-          fullText,
-          candidate.rangeStart,
-          paramNames,
-          optionalParamFlags
-        );
-        
-        if (!conversionResult) {
-          // Can't convert, just highlight
-          startP = doc.positionAt(candidate.rangeStart);
-          endP = doc.positionAt(candidate.rangeStart + 50); // Rough estimate
-          const callRange = new vscode.Range(startP, endP);
-          targetEditor.setDecorations(greenDecoration, [callRange]);
-          targetEditor.revealRange(callRange, vscode.TextEditorRevealType.InCenter);
-          await new Promise((r) => setTimeout(r, highlightDelay));
-          targetEditor.setDecorations(greenDecoration, []);
-          return;
-        }
-        
-        startP = doc.positionAt(conversionResult.start);
-        endP = doc.positionAt(conversionResult.end);
-        repl = conversionResult.replacement;
-      } else {
-        // Regular call - use buildCallReplacement
-        if (!candidate.argsText) {
-          return; // Can't preview - no arg info
-        }
-        
-        startP = doc.positionAt(candidate.start);
-        endP = doc.positionAt(candidate.end);
-        repl = text.buildCallReplacement(
-          candidate.exprText,
-          candidate.argsText,
-          paramNames,
-          optionalParamFlags
-        );
+      if (!candidate.argsText) {
+        return; // Can't preview - no arg info
       }
 
+      const startP = doc.positionAt(candidate.start);
+      const endP = doc.positionAt(candidate.end);
+      const repl = buildReplacement
+        ? buildReplacement(candidate)
+        : text.buildCandidateReplacement(
+            candidate,
+            paramNames,
+            optionalParamFlags
+          );
+
       // Show preview with edit+undo
       await targetEditor.edit((editBuilder) => {
         editBuilder.replace(new vscode.Range(startP, endP), repl);
@@ -577,3 +578,47 @@ export async function showFuzzyConversionPreview(
     greenDecoration.dispose();
   }
 }
+
+/**
+ * Ask which parameters move into the object, either all after the first K
+ * or a chosen subset. Returns the indices of the parameters kept positional,
+ * or null when cancelled.
+ */
+export async function pickObjectParams(
+  fnName: string,
+  paramNames: string[]
+): Promise<number[] | null> {
+  const choose = 'Choose parameters…';
+  const keepFirst = paramNames.slice(0, -1).map((name, i) => ({
+    label: `Keep first ${i + 1} positional`,
+    description: `${fnName}(${paramNames.slice(0, i + 1).join(', ')}, { ${paramNames
+      .slice(i + 1)
+      .join(', ')} })`,
+    count: i + 1,
+  }));
+  const mode = await vscode.window.showQuickPick(
+    [...keepFirst, { label: choose, description: '', count: -1 }],
+    { placeHolder: 'Objectify Params: Parameters to keep positional' }
+  );
+  if (!mode) {
+    return null;
+  }
+  if (mode.count >= 0) {
+    return [...paramNames.slice(0, mode.count).keys()];
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    paramNames.map((name, index) => ({ label: name, index, picked: index > 0 })),
+    {
+      canPickMany: true,
+      placeHolder:
+        'Objectify Params: Parameters to move into the object (the object goes last)',
+    }
+  );
+  if (!picked || !picked.length) {
+    return null;
+  }
+  const inObject = new Set(picked.map((p) => p.index));
+  log('parameters moved into the object:', picked.map((p) => p.label));
+  return [...paramNames.keys()].filter((i) => !inObject.has(i));
+}
@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
 import * as commands from './commands';
+import * as batch from './batch';
+import * as cache from './cache';
+import * as codeActions from './codeActions';
+import * as diagnostics from './diagnostics';
 import * as utils from './utils';
 const { log, start, end } = utils.getLog('extn');
 
@@ -11,11 +15,41 @@ export function activate(context: vscode.ExtensionContext) {
     commands.convertCommandHandler
   );
 
-  context.subscriptions.push(convertCommandHandler);
+  const positionalizeCommandHandler = vscode.commands.registerCommand(
+    'objectifyParams.positionalize',
+    commands.positionalizeCommandHandler
+  );
+
+  const dryRunCommandHandler = vscode.commands.registerCommand(
+    'objectifyParams.dryRun',
+    commands.dryRunCommandHandler
+  );
+
+  const partialCommandHandler = vscode.commands.registerCommand(
+    'objectifyParams.convertPartial',
+    commands.partialCommandHandler
+  );
+
+  const batchCommandHandler = vscode.commands.registerCommand(
+    'objectifyParams.convertBatch',
+    batch.batchCommandHandler
+  );
+
+  context.subscriptions.push(
+    convertCommandHandler,
+    positionalizeCommandHandler,
+    dryRunCommandHandler,
+    partialCommandHandler,
+    batchCommandHandler,
+    codeActions.registerCodeActionProvider(),
+    ...diagnostics.registerDiagnostics(),
+    ...cache.registerWatchers()
+  );
 
   end('activation');
 }
 
 export function deactivate() {
   log('deactivate');
+  cache.invalidate('deactivated');
 }
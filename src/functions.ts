@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { SyntaxKind, SourceFile } from 'ts-morph';
+import { Node, SyntaxKind, SourceFile } from 'ts-morph';
 import * as utils from './utils';
 
 const { log } = utils.getLog('func');
@@ -11,6 +11,49 @@ export interface FunctionDetectionResult {
   fnName: string | null;
 }
 
+export const ANONYMOUS_FUNCTION_MESSAGE =
+  'Cannot convert anonymous functions.';
+
+function showRejectMessage(message: string): void {
+  void vscode.window.showInformationMessage(`Objectify Params: ${message}`);
+}
+
+const FUNCTION_KINDS = [
+  SyntaxKind.ArrowFunction,
+  SyntaxKind.FunctionExpression,
+  SyntaxKind.FunctionDeclaration,
+  SyntaxKind.MethodDeclaration,
+  // Constructors aren't returned by getFunctions/getMethods
+  SyntaxKind.Constructor,
+] as const;
+
+// Signatures without a body, converted with the functions typed by them
+const CONTRACT_KINDS = [
+  SyntaxKind.FunctionType,
+  SyntaxKind.MethodSignature,
+  SyntaxKind.CallSignature,
+] as const;
+
+/** Whether the node is a function type, method signature or call signature */
+export function isContract(node: any): boolean {
+  return (CONTRACT_KINDS as readonly SyntaxKind[]).includes(node.getKind());
+}
+
+/**
+ * The type alias or interface declaring a contract, for
+ * `type Handler = (req: Req) => void` or `interface Fn { (a: string): void }`
+ */
+function getContractDeclaration(contract: any): any | null {
+  let parent = contract.getParent();
+  if (parent && Node.isTypeLiteral(parent)) {
+    parent = parent.getParent();
+  }
+  return parent &&
+    (Node.isTypeAliasDeclaration(parent) || Node.isInterfaceDeclaration(parent))
+    ? parent
+    : null;
+}
+
 function getFunctionSignatureEnd(func: any): number {
   const start = func.getStart ? func.getStart() : 0;
   const end = func.getEnd ? func.getEnd() : start;
@@ -38,6 +81,178 @@ function getFunctionSignatureEnd(func: any): number {
   return end;
 }
 
+/**
+ * Every function kind the conversion supports: arrow functions, function
+ * expressions, function declarations, methods and constructors. Arrow and
+ * function expressions assigned to a variable come with its declaration.
+ */
+export function getFunctionNodes(
+  sourceFile: SourceFile
+): { func: any; varDecl: any | null }[] {
+  const nodes: { func: any; varDecl: any | null }[] = [];
+  for (const kind of FUNCTION_KINDS) {
+    for (const func of sourceFile.getDescendantsOfKind(kind)) {
+      const parent: any = func.getParent();
+      const varDecl =
+        parent && parent.getKind() === SyntaxKind.VariableDeclaration
+          ? parent
+          : null;
+      nodes.push({ func, varDecl });
+    }
+  }
+  return nodes;
+}
+
+/**
+ * The property a CommonJS module exports a function under, for
+ * `exports.send = function () {}` or `module.exports.send = () => {}`
+ */
+export function getCommonJsExportNameNode(func: any): any | null {
+  const parent = func.getParent?.();
+  if (
+    !parent ||
+    parent.getKind() !== SyntaxKind.BinaryExpression ||
+    parent.getOperatorToken().getKind() !== SyntaxKind.EqualsToken ||
+    parent.getRight() !== func
+  ) {
+    return null;
+  }
+  const left = parent.getLeft();
+  if (left.getKind() !== SyntaxKind.PropertyAccessExpression) {
+    return null;
+  }
+  const owner = left.getExpression().getText();
+  return owner === 'exports' || owner === 'module.exports'
+    ? left.getNameNode()
+    : null;
+}
+
+/**
+ * Function name, the class name for constructors, the variable name, the
+ * property name of a CommonJS export, or the name of a contract's type
+ */
+export function getFunctionName(func: any, varDecl: any | null): string | null {
+  let fnName = func.getName ? func.getName() : null;
+
+  // Constructors report no name; use the enclosing class name instead
+  if (!fnName) {
+    const kind = func.getKind?.();
+    if (kind === SyntaxKind.Constructor) {
+      const cls = func.getParent?.();
+      if (cls && typeof cls.getName === 'function') {
+        fnName = cls.getName();
+      }
+    }
+  }
+
+  // If arrow function or function expression assigned to variable, get name from variable
+  if (!fnName && varDecl) {
+    fnName = varDecl.getName();
+  }
+  if (!fnName) {
+    fnName = getCommonJsExportNameNode(func)?.getText() ?? null;
+  }
+
+  // Function types and call signatures are named by their type alias or
+  // interface, or by the parameter or property they annotate
+  if (!fnName && isContract(func)) {
+    const owner = getContractDeclaration(func) ?? func.getParent();
+    fnName = typeof owner?.getName === 'function' ? owner.getName() : null;
+  }
+  return fnName || null;
+}
+
+/**
+ * Exported declarations, CommonJS exports, contracts of exported types, or
+ * members and constructors of exported classes
+ */
+export function isExportedFunction(func: any, varDecl: any | null): boolean {
+  if (varDecl) {
+    return Boolean(varDecl.isExported?.());
+  }
+  if (getCommonJsExportNameNode(func)) {
+    return true;
+  }
+  if (isContract(func)) {
+    return Boolean(getContractDeclaration(func)?.isExported());
+  }
+  const kind = func.getKind();
+  if (kind === SyntaxKind.FunctionDeclaration) {
+    return Boolean(func.isExported?.());
+  }
+  if (kind === SyntaxKind.MethodDeclaration || kind === SyntaxKind.Constructor) {
+    const cls = func.getParent();
+    return Boolean(
+      cls &&
+        cls.getKind() === SyntaxKind.ClassDeclaration &&
+        cls.isExported()
+    );
+  }
+  return false;
+}
+
+/**
+ * The JSDoc block documenting the function: its own, the variable
+ * statement's for arrow functions and function expressions, or the
+ * assignment's for CommonJS exports
+ */
+export function getFunctionJsDoc(func: any, varDecl: any | null): any | null {
+  const owner = varDecl
+    ? varDecl.getVariableStatement?.()
+    : getCommonJsExportNameNode(func)
+      ? func.getParent().getParent()
+      : func;
+  const docs =
+    owner && typeof owner.getJsDocs === 'function' ? owner.getJsDocs() : [];
+  return docs.length ? docs[docs.length - 1] : null;
+}
+
+/** Text of a comment without its delimiters, on one line */
+function getCommentBody(commentText: string): string {
+  return commentText
+    .replace(/^\/\/+/, '')
+    .replace(/^\/\*+/, '')
+    .replace(/\*+\/$/, '')
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*\*?\s?/, '').trim())
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Description of each parameter, from its JSDoc `@param` tag or else a
+ * comment in front of the parameter, keyed by parameter name
+ */
+export function getParameterDescriptions(
+  func: any,
+  varDecl: any | null,
+  params: any[]
+): Map<string, string> {
+  const descriptions = new Map<string, string>();
+  const jsDoc = getFunctionJsDoc(func, varDecl);
+  for (const tag of jsDoc ? jsDoc.getTags() : []) {
+    if (tag.getKind() !== SyntaxKind.JSDocParameterTag) continue;
+    const comment = (tag.getCommentText?.() ?? '')
+      .replace(/^\s*-\s*/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (comment) {
+      descriptions.set(tag.getName(), comment);
+    }
+  }
+  for (const p of params) {
+    const comment = p
+      .getLeadingCommentRanges()
+      .map((range: any) => getCommentBody(range.getText()))
+      .filter(Boolean)
+      .join(' ');
+    if (comment && !descriptions.has(p.getName())) {
+      descriptions.set(p.getName(), comment);
+    }
+  }
+  return descriptions;
+}
+
 /**
  * Find the function/method at the cursor position
  * Searches for:
@@ -45,10 +260,12 @@ function getFunctionSignatureEnd(func: any): number {
  * - Variable declarations with arrow/function expressions
  * - Class methods
  * - Object literal methods (e.g., Vue component methods)
+ * onReject receives the reason when no convertible function is found
  */
 export function findTargetFunction(
   sourceFile: SourceFile,
-  cursorOffset: number
+  cursorOffset: number,
+  onReject: (message: string) => void = showRejectMessage
 ): FunctionDetectionResult | null {
   let targetFunction: any = null;
   let targetVariableDeclaration: any = null;
@@ -114,86 +331,58 @@ export function findTargetFunction(
     }
   }
   
-  // Check all ArrowFunctions
-  const arrowFunctions = sourceFile.getDescendantsOfKind(SyntaxKind.ArrowFunction);
-  for (const arrow of arrowFunctions) {
-    // Find the variable declaration that contains this arrow function
-    let varDecl = null;
-    const parent = arrow.getParent();
-    if (parent && parent.getKind && parent.getKind() === SyntaxKind.VariableDeclaration) {
-      varDecl = parent;
-    }
-    considerFunction(arrow, varDecl);
-  }
-  
-  // Check all FunctionExpressions
-  const functionExpressions = sourceFile.getDescendantsOfKind(SyntaxKind.FunctionExpression);
-  for (const funcExpr of functionExpressions) {
-    let varDecl = null;
-    const parent = funcExpr.getParent();
-    if (parent && parent.getKind && parent.getKind() === SyntaxKind.VariableDeclaration) {
-      varDecl = parent;
-    }
-    considerFunction(funcExpr, varDecl);
+  // Then every function-like node, with its variable declaration if any
+  for (const { func, varDecl } of getFunctionNodes(sourceFile)) {
+    considerFunction(func, varDecl);
   }
 
-  // Check all FunctionDeclarations
-  const functionDeclarations = sourceFile.getDescendantsOfKind(SyntaxKind.FunctionDeclaration);
-  for (const funcDecl of functionDeclarations) {
-    considerFunction(funcDecl);
-  }
-
-  // Check all MethodDeclarations
-  const methodDeclarations = sourceFile.getDescendantsOfKind(SyntaxKind.MethodDeclaration);
-  for (const method of methodDeclarations) {
-    considerFunction(method);
-  }
-
-  // Check class constructors explicitly — they aren't returned by getFunctions/getMethods
-  const constructors = sourceFile.getDescendantsOfKind(SyntaxKind.Constructor);
-  for (const ctor of constructors) {
-    considerFunction(ctor);
+  // Contracts; a type alias's function type is found from the alias name
+  for (const kind of CONTRACT_KINDS) {
+    for (const contract of sourceFile.getDescendantsOfKind(kind)) {
+      const parent: any = contract.getParent();
+      const start = Node.isTypeAliasDeclaration(parent)
+        ? parent.getStart()
+        : contract.getStart();
+      const range = contract.getEnd() - start;
+      if (
+        start <= cursorOffset &&
+        cursorOffset <= getFunctionSignatureEnd(contract) &&
+        range < smallestRange
+      ) {
+        smallestRange = range;
+        targetFunction = contract;
+        targetVariableDeclaration = null;
+      }
+    }
   }
 
   if (!targetFunction) {
-    void vscode.window.showInformationMessage(
-      'Objectify Params: Not on a function.'
-    );
+    onReject('Not on a function.');
     return null;
   }
 
+  // Cursor on an overload signature targets the implementation
+  if (
+    typeof targetFunction.isOverload === 'function' &&
+    targetFunction.isOverload()
+  ) {
+    const implementation = targetFunction.getImplementation();
+    if (implementation) {
+      targetFunction = implementation;
+    }
+  }
+
   const params = targetFunction.getParameters();
   if (!params || params.length === 0) {
-    void vscode.window.showInformationMessage(
-      'Objectify Params: Function has zero parameters — nothing to convert.'
-    );
+    onReject('Function has zero parameters — nothing to convert.');
     return null;
   }
 
-  // Get function name
-  let fnName = targetFunction.getName ? targetFunction.getName() : null;
-
-  // Constructors report no name; use the enclosing class name instead
-  if (!fnName) {
-    const kind = targetFunction.getKind?.();
-    if (kind === SyntaxKind.Constructor) {
-      const cls = targetFunction.getParent?.();
-      if (cls && typeof cls.getName === 'function') {
-        fnName = cls.getName();
-      }
-    }
-  }
-
-  // If arrow function or function expression assigned to variable, get name from variable
-  if (!fnName && targetVariableDeclaration) {
-    fnName = targetVariableDeclaration.getName();
-  }
+  const fnName = getFunctionName(targetFunction, targetVariableDeclaration);
 
   // Check if function is anonymous (no name found)
   if (!fnName) {
-    void vscode.window.showInformationMessage(
-      'Objectify Params: Cannot convert anonymous functions.'
-    );
+    onReject(ANONYMOUS_FUNCTION_MESSAGE);
     return null;
   }
 
@@ -205,49 +394,81 @@ export function findTargetFunction(
   };
 }
 
+function isParameterProperty(p: any): boolean {
+  try {
+    const scope = p.getScope && p.getScope();
+    const isReadonly = p.isReadonly && p.isReadonly();
+    return Boolean(scope || isReadonly);
+  } catch {
+    return false;
+  }
+}
+
+export function hasParameterProperties(params: any[]): boolean {
+  return params.some(isParameterProperty);
+}
+
+/**
+ * Short reason the function cannot be converted, or null if it can.
+ * Used where a modal warning is not wanted, e.g. disabled code actions.
+ */
+export function getValidationError(
+  targetFunction: any,
+  params: any[],
+  convertParameterProperties = false
+): string | null {
+  if (hasParameterProperties(params) && !convertParameterProperties) {
+    return 'Uses TypeScript parameter properties (enable the "Convert Parameter Properties" setting to convert them).';
+  }
+  if (overloadHasRestParameter(targetFunction)) {
+    return 'An overload signature uses a rest parameter.';
+  }
+  return null;
+}
+
+function overloadHasRestParameter(targetFunction: any): boolean {
+  const overloads = targetFunction.getOverloads
+    ? targetFunction.getOverloads()
+    : [];
+  return overloads.some((o: any) =>
+    o.getParameters().some((p: any) => p.isRestParameter())
+  );
+}
+
 /**
  * Validate that the function can be converted
  * Checks for:
- * - Parameter properties (TypeScript constructor params)
- * - Function overloads
+ * - Parameter properties (TypeScript constructor params), unless they
+ *   are to be converted to class fields
+ * - Overload signatures with rest parameters
  * Returns true if valid, false if cannot convert
  */
 export async function validateFunction(
   targetFunction: any,
-  params: any[]
+  params: any[],
+  convertParameterProperties = false
 ): Promise<boolean> {
   // Check for parameter properties (TypeScript constructor parameters with public/private/protected/readonly)
-  const hasParameterProperties = params.some((p: any) => {
-    try {
-      const scope = p.getScope && p.getScope();
-      const isReadonly = p.isReadonly && p.isReadonly();
-      return scope || isReadonly;
-    } catch {
-      return false;
-    }
-  });
-
-  if (hasParameterProperties) {
+  if (hasParameterProperties(params) && !convertParameterProperties) {
     await vscode.window.showWarningMessage(
       `Objectify Params\n\n⚠️ This function cannot be converted\n\n` +
         `This function uses TypeScript parameter properties (public/private/protected/readonly).\n\n` +
         `Converting would lose the automatic property assignment behavior.\n\n` +
-        `Parameter properties are only valid in constructors and automatically create class fields.`,
+        `Parameter properties are only valid in constructors and automatically create class fields.\n\n` +
+        `Enable the "Convert Parameter Properties" setting to turn them into class fields instead.`,
       { modal: true }
     );
     return false;
   }
 
-  // Check for TypeScript function overloads
-  const hasOverloads =
-    targetFunction.getOverloads && targetFunction.getOverloads().length > 0;
-  if (hasOverloads) {
+  // Overload signatures are converted along with the implementation,
+  // but a rest parameter in an overload has no property names to map to
+  if (overloadHasRestParameter(targetFunction)) {
     await vscode.window.showWarningMessage(
       `Objectify Params\n\n⚠️ This function cannot be converted\n\n` +
-        `This function uses TypeScript overload signatures.\n\n` +
-        `Converting the implementation signature would break the overload signatures, ` +
-        `which would need to be manually updated to match the new object parameter pattern.\n\n` +
-        `All overload signatures must be updated before converting the implementation.`,
+        `One of its TypeScript overload signatures uses a rest parameter.\n\n` +
+        `Overload signatures are converted along with the implementation, ` +
+        `which needs a named parameter for every position.`,
       { modal: true }
     );
     return false;
@@ -367,3 +588,450 @@ export async function extractParameterNames(
     optionalParamNames,
   };
 }
+
+export interface ObjectParamProperty {
+  propName: string;
+  bindingText: string;
+  defaultText: string | null;
+  typeText: string | null;
+  isOptional: boolean;
+}
+
+function getPropertyNameText(element: any): string | null {
+  const propNameNode =
+    typeof element.getPropertyNameNode === 'function'
+      ? element.getPropertyNameNode()
+      : undefined;
+  if (!propNameNode) {
+    return element.getName ? element.getName() : null;
+  }
+  const kind = propNameNode.getKind();
+  if (kind === SyntaxKind.ComputedPropertyName) {
+    return null;
+  }
+  if (
+    kind === SyntaxKind.StringLiteral ||
+    kind === SyntaxKind.NoSubstitutionTemplateLiteral
+  ) {
+    return propNameNode.getLiteralText();
+  }
+  return propNameNode.getText();
+}
+
+/**
+ * Extract the properties of an object parameter from its binding pattern
+ * (inline `{ a, b = 1 }: T` or the `let { a, b = 1 } = $par$;` statement)
+ * together with the property types of the parameter's type annotation.
+ * Returns null when the pattern uses rest elements or computed names,
+ * which have no positional equivalent.
+ */
+export function extractObjectParamProperties(
+  objectParam: any,
+  bindingPattern: any
+): ObjectParamProperty[] | null {
+  const elements =
+    bindingPattern && typeof bindingPattern.getElements === 'function'
+      ? bindingPattern.getElements()
+      : [];
+  if (!elements.length) {
+    return null;
+  }
+
+  const typeNode =
+    typeof objectParam.getTypeNode === 'function'
+      ? objectParam.getTypeNode()
+      : undefined;
+  const wholeParamHasDefault =
+    typeof objectParam.hasInitializer === 'function' &&
+    objectParam.hasInitializer();
+
+  const properties: ObjectParamProperty[] = [];
+  for (const element of elements) {
+    if (element.getDotDotDotToken && element.getDotDotDotToken()) {
+      log('object param uses a rest element, cannot positionalize');
+      return null;
+    }
+    const propName = getPropertyNameText(element);
+    if (!propName) {
+      log('object param uses a computed property name, cannot positionalize');
+      return null;
+    }
+    const initializer = element.getInitializer && element.getInitializer();
+    const defaultText = initializer ? initializer.getText() : null;
+
+    let typeText: string | null = null;
+    let typeOptional = false;
+    try {
+      if (typeNode && typeNode.getKind() === SyntaxKind.TypeLiteral) {
+        const member = typeNode.getProperty(propName);
+        const memberType = member && member.getTypeNode && member.getTypeNode();
+        typeText = memberType ? memberType.getText() : null;
+        typeOptional = Boolean(member && member.hasQuestionToken());
+      } else if (typeNode) {
+        const propSym = objectParam.getType().getProperty(propName);
+        if (propSym) {
+          typeText = propSym.getTypeAtLocation(objectParam).getText(objectParam);
+          typeOptional = propSym.isOptional();
+        }
+      }
+    } catch (e) {
+      log('error reading object param property type for', propName, e);
+    }
+
+    properties.push({
+      propName,
+      bindingText: element.getNameNode().getText(),
+      defaultText,
+      typeText,
+      isOptional: Boolean(defaultText) || typeOptional || wholeParamHasDefault,
+    });
+  }
+  return properties;
+}
+
+/**
+ * Build the positional parameter list text from object param properties.
+ * An optional property followed by a required one cannot stay optional in a
+ * positional list, so it becomes `name: T | undefined` instead.
+ */
+export function buildPositionalParamsText(
+  properties: ObjectParamProperty[],
+  isTypeScript: boolean
+): string {
+  const lastRequired = properties.reduce(
+    (last, p, i) => (p.isOptional ? last : i),
+    -1
+  );
+  return properties
+    .map((p, i) => {
+      let out = p.bindingText;
+      if (isTypeScript) {
+        const isPattern = /^[{[]/.test(p.bindingText);
+        const canBeOptional = i > lastRequired && !isPattern;
+        const type = p.typeText;
+        if (p.defaultText !== null) {
+          out += type ? `: ${type}` : '';
+        } else if (p.isOptional && canBeOptional) {
+          out += `?${type ? `: ${type}` : ''}`;
+        } else if (p.isOptional) {
+          out += `: ${type || 'any'} | undefined`;
+        } else {
+          out += type ? `: ${type}` : '';
+        }
+      }
+      if (p.defaultText !== null) {
+        out += ` = ${p.defaultText}`;
+      }
+      return out;
+    })
+    .join(', ');
+}
+
+export interface OverloadSignatureInfo {
+  node: any;
+  params: any[];
+  paramNames: string[];
+  optionalParamNames: boolean[];
+}
+
+/**
+ * Get the overload signatures of the target function with their own
+ * parameter names and optionality
+ */
+export function getOverloadSignatures(
+  targetFunction: any
+): OverloadSignatureInfo[] {
+  const overloads =
+    typeof targetFunction.getOverloads === 'function'
+      ? targetFunction.getOverloads()
+      : [];
+  return overloads.map((node: any) => {
+    const params = node.getParameters();
+    return {
+      node,
+      params,
+      paramNames: params.map((p: any) => p.getName()),
+      optionalParamNames: params.map((p: any) => p.isOptional()),
+    };
+  });
+}
+
+/** Classes and interfaces a class or interface extends or implements */
+function getBaseTypeDeclarations(decl: any): any[] {
+  if (Node.isInterfaceDeclaration(decl)) {
+    return decl.getBaseDeclarations();
+  }
+  const bases: any[] = [];
+  const baseClass = decl.getBaseClass?.();
+  if (baseClass) {
+    bases.push(baseClass);
+  }
+  for (const impl of decl.getImplements()) {
+    const sym = impl.getExpression().getSymbol();
+    const resolved = sym && (sym.getAliasedSymbol() || sym);
+    for (const d of resolved?.getDeclarations() || []) {
+      if (Node.isInterfaceDeclaration(d) || Node.isClassDeclaration(d)) {
+        bases.push(d);
+      }
+    }
+  }
+  return bases;
+}
+
+/** Subclasses of a class, or classes implementing an interface */
+function getDerivedTypeDeclarations(decl: any): any[] {
+  if (Node.isClassDeclaration(decl)) {
+    return decl.getDerivedClasses();
+  }
+  if (!Node.isInterfaceDeclaration(decl)) {
+    return [];
+  }
+  return decl
+    .getImplementations()
+    .map((impl: any) => {
+      const node = impl.getNode();
+      return Node.isClassDeclaration(node) || Node.isClassExpression(node)
+        ? node
+        : node.getFirstAncestor(
+            (a: any) => Node.isClassDeclaration(a) || Node.isClassExpression(a)
+          );
+    })
+    .filter(Boolean);
+}
+
+/** Instance members of a class or interface with the given name */
+function getInstanceMembersNamed(decl: any, name: string): any[] {
+  const members = Node.isInterfaceDeclaration(decl)
+    ? [...decl.getMethods(), ...decl.getProperties()]
+    : [...decl.getInstanceMethods(), ...decl.getInstanceProperties()];
+  return members.filter((m: any) => m.getName() === name);
+}
+
+/**
+ * Declarations sharing the contract of a class method or interface method
+ * signature: the methods it
+ * overrides, abstract and interface declarations it implements, overrides
+ * in subclasses and implementations in other classes of those interfaces.
+ * Types are only searched downwards from those that declare the method,
+ * so a sibling's unrelated method of the same name is left out.
+ */
+export function getMethodFamily(targetFunction: any): any[] {
+  const owner = targetFunction.getParent();
+  const isClassMethod =
+    Node.isMethodDeclaration(targetFunction) &&
+    !targetFunction.isStatic() &&
+    (Node.isClassDeclaration(owner) || Node.isClassExpression(owner));
+  const isInterfaceMethod =
+    Node.isMethodSignature(targetFunction) &&
+    Node.isInterfaceDeclaration(owner);
+  if (!isClassMethod && !isInterfaceMethod) {
+    return [];
+  }
+  const name = targetFunction.getName();
+  const family: any[] = [];
+  // Whether the derived types of each visited declaration were searched
+  const visited = new Map<any, boolean>();
+  const queue: { decl: any; searchDerived: boolean }[] = [
+    { decl: owner, searchDerived: true },
+  ];
+  while (queue.length) {
+    const next = queue.shift()!;
+    const decl = next.decl;
+    const members = getInstanceMembersNamed(decl, name);
+    const searchDerived = next.searchDerived || members.length > 0;
+    if (visited.has(decl) && (visited.get(decl) || !searchDerived)) continue;
+    visited.set(decl, searchDerived);
+    for (const member of members) {
+      if (member !== targetFunction && !family.includes(member)) {
+        family.push(member);
+      }
+    }
+    for (const base of getBaseTypeDeclarations(decl)) {
+      queue.push({ decl: base, searchDerived: false });
+    }
+    if (searchDerived && !decl.getSourceFile().isDeclarationFile()) {
+      for (const derived of getDerivedTypeDeclarations(decl)) {
+        queue.push({ decl: derived, searchDerived: true });
+      }
+    }
+  }
+  return family;
+}
+
+export interface OverloadImplementationPlan {
+  destructuredParams: string;
+  properties: Array<{ name: string; typeText: string; isOptional: boolean }>;
+  aliasLines: string[];
+}
+
+/**
+ * When overloads use different parameter names than the implementation,
+ * the implementation must accept every overload's properties and map them
+ * back to its own parameter names. Returns null when all overloads use the
+ * implementation's names, so the implementation converts as usual.
+ */
+export function planOverloadImplementation(
+  implParams: any[],
+  implParamNames: string[],
+  overloads: OverloadSignatureInfo[]
+): OverloadImplementationPlan | null {
+  const namesDiffer = overloads.some((o) =>
+    o.paramNames.some((name, i) => name !== implParamNames[i])
+  );
+  if (!namesDiffer) {
+    return null;
+  }
+
+  // Property names in position order, first occurrence wins
+  const keys: string[] = [];
+  const maxLen = Math.max(...overloads.map((o) => o.paramNames.length));
+  for (let i = 0; i < maxLen; i++) {
+    for (const o of overloads) {
+      const name = o.paramNames[i];
+      if (name && !keys.includes(name)) {
+        keys.push(name);
+      }
+    }
+  }
+
+  const properties = keys.map((name) => {
+    const typeTexts: string[] = [];
+    let requiredEverywhere = true;
+    for (const o of overloads) {
+      const idx = o.paramNames.indexOf(name);
+      if (idx < 0) {
+        requiredEverywhere = false;
+        continue;
+      }
+      if (o.optionalParamNames[idx]) {
+        requiredEverywhere = false;
+      }
+      const param = o.params[idx];
+      const typeNode = param.getTypeNode && param.getTypeNode();
+      const typeText = typeNode ? typeNode.getText() : 'any';
+      if (!typeTexts.includes(typeText)) {
+        typeTexts.push(typeText);
+      }
+    }
+    return {
+      name,
+      typeText: typeTexts.join(' | ') || 'any',
+      isOptional: !requiredEverywhere,
+    };
+  });
+
+  const sourcesByImplIdx = implParamNames.map((implName, i) => {
+    const sources: string[] = [];
+    for (const o of overloads) {
+      const name = o.paramNames[i];
+      if (name && name !== implName && !sources.includes(name)) {
+        sources.push(name);
+      }
+    }
+    return sources;
+  });
+  const getInitializerText = (i: number): string | undefined => {
+    const initializer =
+      implParams[i] && implParams[i].getInitializer
+        ? implParams[i].getInitializer()
+        : undefined;
+    return initializer ? initializer.getText() : undefined;
+  };
+
+  // Defaults of aliased parameters move into the alias expression
+  const destructured = keys.map((key) => {
+    const implIdx = implParamNames.indexOf(key);
+    const defaultText =
+      implIdx >= 0 && !sourcesByImplIdx[implIdx].length
+        ? getInitializerText(implIdx)
+        : undefined;
+    return defaultText ? `${key} = ${defaultText}` : key;
+  });
+
+  const aliasLines: string[] = [];
+  implParamNames.forEach((implName, i) => {
+    const sources = sourcesByImplIdx[i];
+    if (!sources.length) {
+      return;
+    }
+    const chain = [...sources];
+    let expr = getInitializerText(i) ?? chain.pop();
+    for (let j = chain.length - 1; j >= 0; j--) {
+      expr = `${chain[j]} !== undefined ? ${chain[j]} : ${expr}`;
+    }
+    if (keys.includes(implName)) {
+      aliasLines.push(`if (${implName} === undefined) ${implName} = ${expr};`);
+    } else {
+      aliasLines.push(`let ${implName} = ${expr};`);
+    }
+  });
+
+  return {
+    destructuredParams: destructured.join(', '),
+    properties,
+    aliasLines,
+  };
+}
+
+export interface ParameterPropertyConversion {
+  fieldLines: string[];
+  assignmentLines: string[];
+  superCallText: string | null;
+}
+
+const parameterPropertyModifierKinds = new Set([
+  SyntaxKind.PublicKeyword,
+  SyntaxKind.PrivateKeyword,
+  SyntaxKind.ProtectedKeyword,
+  SyntaxKind.ReadonlyKeyword,
+  SyntaxKind.OverrideKeyword,
+]);
+
+/**
+ * Build explicit class field declarations and constructor assignments
+ * that replace the constructor's parameter properties
+ */
+export function buildParameterPropertyConversion(
+  ctor: any,
+  params: any[]
+): ParameterPropertyConversion {
+  const fieldLines: string[] = [];
+  const assignmentLines: string[] = [];
+  for (const p of params) {
+    if (!isParameterProperty(p)) {
+      continue;
+    }
+    const name = p.getName();
+    const modifiers = p
+      .getModifiers()
+      .filter((m: any) => parameterPropertyModifierKinds.has(m.getKind()))
+      .map((m: any) => m.getText());
+    const typeNode = p.getTypeNode && p.getTypeNode();
+    const typeText = typeNode ? typeNode.getText() : p.getType().getText(p);
+    const optionalMark = p.hasQuestionToken() ? '?' : '';
+    fieldLines.push(
+      `${[...modifiers, name].join(' ')}${optionalMark}: ${typeText};`
+    );
+    assignmentLines.push(`this.${name} = ${name};`);
+  }
+
+  // Assignments must follow super() in derived classes
+  let superCallText: string | null = null;
+  const body = ctor.getBody && ctor.getBody();
+  const statements = body ? body.getStatements() : [];
+  for (const stmt of statements) {
+    if (stmt.getKind() !== SyntaxKind.ExpressionStatement) {
+      continue;
+    }
+    const expr = stmt.getExpression();
+    if (
+      expr.getKind() === SyntaxKind.CallExpression &&
+      expr.getExpression().getKind() === SyntaxKind.SuperKeyword
+    ) {
+      superCallText = stmt.getText();
+      break;
+    }
+  }
+
+  return { fieldLines, assignmentLines, superCallText };
+}
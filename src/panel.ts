@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import * as utils from './utils';
+
+const { log } = utils.getLog('panl');
+
+export interface ReviewItem {
+  id: number;
+  kind: 'confirmed' | 'fuzzy';
+  filePath: string;
+  file: string;
+  line: number;
+  start: number;
+  end: number;
+  before: string;
+  after: string | null;
+  reason?: string;
+  convert: boolean;
+  /** Part of the function's conversion, e.g. an override; cannot be skipped */
+  required?: boolean;
+  /** Items of one group, e.g. a .bind() and its calls, share their toggle */
+  group?: number;
+}
+
+export interface ReviewModel {
+  functionName: string;
+  /** The converted function, omitted when items are whole functions */
+  functionFile?: string;
+  functionBefore?: string;
+  functionAfter?: string;
+  /** What the items are, for the summary line; defaults to "call(s)" */
+  itemLabel?: string;
+  items: ReviewItem[];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function createNonce(): string {
+  const chars =
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}
+
+function buildItemHtml(item: ReviewItem): string {
+  const canConvert = item.after !== null;
+  const required = Boolean(item.required) && canConvert;
+  return `
+    <div class="item ${item.kind}" data-id="${item.id}">
+      <div class="item-header">
+        <label>
+          <input type="checkbox" class="toggle" data-id="${item.id}"
+            ${item.group !== undefined ? `data-group="${item.group}"` : ''}
+            ${required || (item.convert && canConvert) ? 'checked' : ''}
+            ${canConvert && !required ? '' : 'disabled'}>
+          Convert
+        </label>
+        <span class="badge">${required ? 'required' : item.kind}</span>
+        <a href="#" class="reveal" data-id="${item.id}">line ${item.line}</a>
+      </div>
+      ${item.reason ? `<div class="reason">${escapeHtml(item.reason)}</div>` : ''}
+      <pre class="before">${escapeHtml(item.before)}</pre>
+      <pre class="after">${
+        canConvert ? escapeHtml(item.after as string) : '(cannot be converted)'
+      }</pre>
+    </div>`;
+}
+
+/** Webview HTML listing the function preview and every call by file */
+function buildReviewHtml(
+  model: ReviewModel,
+  nonce: string,
+  cspSource: string
+): string {
+  const files = new Map<string, ReviewItem[]>();
+  for (const item of model.items) {
+    files.set(item.file, [...(files.get(item.file) || []), item]);
+  }
+  const groupsHtml = Array.from(files)
+    .map(
+      ([file, items]) => `
+    <details open>
+      <summary>${escapeHtml(file)} <span class="count">(${items.length})</span></summary>
+      ${items.map(buildItemHtml).join('')}
+    </details>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    pre { font-family: var(--vscode-editor-font-family); white-space: pre-wrap; margin: 4px 0; padding: 4px 8px; }
+    pre.before { background: var(--vscode-diffEditor-removedTextBackground); }
+    pre.after { background: var(--vscode-diffEditor-insertedTextBackground); }
+    .toolbar { position: sticky; top: 0; padding: 8px 0; background: var(--vscode-editor-background); display: flex; gap: 8px; align-items: center; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+    details { margin: 8px 0; }
+    summary { cursor: pointer; font-weight: bold; }
+    .item { border-left: 3px solid var(--vscode-charts-green); margin: 8px 0 8px 12px; padding-left: 8px; }
+    .item.fuzzy { border-left-color: var(--vscode-charts-yellow); }
+    .item-header { display: flex; gap: 12px; align-items: center; }
+    .badge { font-size: 0.85em; opacity: 0.8; }
+    .reason { margin: 4px 0; font-style: italic; }
+    .count, .summary { opacity: 0.8; }
+  </style>
+</head>
+<body>
+  <h2>Objectify Params: ${escapeHtml(model.functionName)}</h2>
+  ${
+    model.functionBefore !== undefined
+      ? `<details open>
+    <summary>Function in ${escapeHtml(model.functionFile || '')}</summary>
+    <pre class="before">${escapeHtml(model.functionBefore)}</pre>
+    <pre class="after">${escapeHtml(model.functionAfter || '')}</pre>
+  </details>`
+      : ''
+  }
+  <div class="toolbar">
+    <button id="apply">Apply</button>
+    <button class="secondary" id="cancel">Cancel</button>
+    <button class="secondary" data-bulk="all">Convert All</button>
+    <button class="secondary" data-bulk="none">Skip All</button>
+    <button class="secondary" data-bulk="confirmed">Convert Confirmed Only</button>
+    <span class="summary" id="summary"></span>
+  </div>
+  ${groupsHtml}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const toggles = Array.from(document.querySelectorAll('input.toggle'));
+    const saved = vscode.getState();
+    if (saved && saved.checked) {
+      for (const t of toggles) if (!t.disabled) t.checked = saved.checked.includes(Number(t.dataset.id));
+    }
+    const checkedIds = () => toggles.filter((t) => t.checked).map((t) => Number(t.dataset.id));
+    const update = () => {
+      const ids = checkedIds();
+      vscode.setState({ checked: ids });
+      document.getElementById('summary').textContent = ids.length + ' of ' + toggles.length + ' ${escapeHtml(model.itemLabel || 'call(s)')} will be converted';
+    };
+    for (const t of toggles) {
+      t.addEventListener('change', () => {
+        if (t.dataset.group !== undefined) {
+          for (const other of toggles) {
+            if (other.dataset.group === t.dataset.group && !other.disabled) other.checked = t.checked;
+          }
+        }
+        update();
+      });
+    }
+    for (const b of document.querySelectorAll('[data-bulk]')) {
+      b.addEventListener('click', () => {
+        for (const t of toggles) {
+          if (t.disabled) continue;
+          const kind = t.closest('.item').classList.contains('fuzzy') ? 'fuzzy' : 'confirmed';
+          t.checked = b.dataset.bulk === 'all' || (b.dataset.bulk === 'confirmed' && kind === 'confirmed');
+        }
+        update();
+      });
+    }
+    for (const a of document.querySelectorAll('a.reveal')) {
+      a.addEventListener('click', (e) => {
+        e.preventDefault();
+        vscode.postMessage({ type: 'reveal', id: Number(a.dataset.id) });
+      });
+    }
+    document.getElementById('apply').addEventListener('click', () =>
+      vscode.postMessage({ type: 'apply', ids: checkedIds() })
+    );
+    document.getElementById('cancel').addEventListener('click', () =>
+      vscode.postMessage({ type: 'cancel' })
+    );
+    update();
+  </script>
+</body>
+</html>`;
+}
+
+async function revealItem(item: ReviewItem): Promise<void> {
+  const doc = await vscode.workspace.openTextDocument(
+    vscode.Uri.file(item.filePath)
+  );
+  const range = new vscode.Range(
+    doc.positionAt(item.start),
+    doc.positionAt(item.end)
+  );
+  await vscode.window.showTextDocument(doc, {
+    viewColumn: vscode.ViewColumn.One,
+    preserveFocus: true,
+    selection: new vscode.Selection(range.start, range.end),
+  });
+}
+
+/**
+ * Show every call in one panel with Convert/Skip toggles.
+ * Resolves to the ids of the calls to convert when Apply is clicked, or
+ * null when the panel is cancelled or closed.
+ */
+export function showReviewPanel(
+  model: ReviewModel
+): Promise<Set<number> | null> {
+  const panel = vscode.window.createWebviewPanel(
+    'objectifyParamsReview',
+    `Objectify Params: ${model.functionName}`,
+    vscode.ViewColumn.Beside,
+    { enableScripts: true, retainContextWhenHidden: true }
+  );
+  panel.webview.html = buildReviewHtml(
+    model,
+    createNonce(),
+    panel.webview.cspSource
+  );
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (result: Set<number> | null): void => {
+      if (settled) return;
+      settled = true;
+      resolve(result);
+      panel.dispose();
+    };
+
+    panel.webview.onDidReceiveMessage(async (message: any) => {
+      if (message.type === 'apply') {
+        log('review panel apply,', message.ids.length, 'call(s) selected');
+        const ids = new Set<number>(message.ids);
+        // Required items, and the partners of a selected grouped item
+        const selectedGroups = new Set(
+          model.items
+            .filter((i) => ids.has(i.id) && i.group !== undefined)
+            .map((i) => i.group)
+        );
+        for (const i of model.items) {
+          const isGrouped = i.group !== undefined && selectedGroups.has(i.group);
+          if (i.after !== null && (i.required || isGrouped)) ids.add(i.id);
+        }
+        finish(ids);
+      } else if (message.type === 'cancel') {
+        finish(null);
+      } else if (message.type === 'reveal') {
+        const item = model.items.find((i) => i.id === message.id);
+        if (item) {
+          try {
+            await revealItem(item);
+          } catch (err) {
+            log('error revealing call', item.file, item.line, err);
+            void vscode.window.showInformationMessage(
+              `Objectify Params: Could not open ${item.file}:${item.line}.`
+            );
+          }
+        }
+      }
+    });
+    panel.onDidDispose(() => finish(null));
+  });
+}
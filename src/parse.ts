@@ -2,49 +2,15 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as glob from 'glob';
-import { Project, SourceFile, SyntaxKind } from 'ts-morph';
+import { Node, Project, SourceFile, SyntaxKind, ts } from 'ts-morph';
 import * as utils from './utils';
 import * as dialogs from './dialogs';
+import * as text from './text';
+import * as sfc from './sfc';
+import * as functions from './functions';
 
 const { log } = utils.getLog('pars');
 
-const vueLikeExtensions = new Set(['.vue', '.svelte']);
-
-function escapeRegExp(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
-function extractVueScriptContent(filePath: string): string | null {
-  try {
-    const text = fs.readFileSync(filePath, 'utf8');
-    const scriptRegex = /<script\b[^>]*>([\s\S]*?)<\/script>/gi;
-    let match: RegExpExecArray | null;
-    let combined = '';
-    while ((match = scriptRegex.exec(text)) !== null) {
-      combined += match[1] + '\n';
-    }
-    return combined || null;
-  } catch (e) {
-    log('extractVueScriptContent error for', filePath, e);
-    return null;
-  }
-}
-
-function hasVueScriptDefinition(
-  filePath: string,
-  fnName: string
-): boolean {
-  const content = extractVueScriptContent(filePath);
-  if (!content) return false;
-  const escaped = escapeRegExp(fnName);
-  const patterns = [
-    new RegExp(`\\bfunction\\s+${escaped}\\s*\\(`),
-    new RegExp(`\\b(?:const|let|var)\\s+${escaped}\\s*=\\s*(?:async\\s*)?(?:function\\b|\\()`),
-    new RegExp(`\\b${escaped}\\s*:\\s*(?:async\\s*)?function\\s*\\(`),
-    new RegExp(`(^|[\\s,{;])${escaped}\\s*\\([^)]*\\)\\s*{`, 'm'),
-  ];
-  return patterns.some((re) => re.test(content));
-}
 export interface SymbolResolution {
   resolvedTarget: any;
   canProceedWithoutSymbol: boolean;
@@ -54,13 +20,33 @@ export interface CallCandidate {
   filePath: string;
   start?: number;
   end?: number;
-  rangeStart?: number;
-  rangeEnd?: number;
   exprText: string;
   argsText: string[] | null;
   text?: string;
   reason?: string;
   score?: number;
+  objectProps?: text.ObjectArgProperty[];
+  overloadStart?: number;
+  callForm?:
+    | 'call'
+    | 'apply'
+    | 'bind'
+    | 'bind-adapter'
+    | 'value-adapter'
+    | 'declaration';
+  thisArgText?: string;
+  // shorthand property name kept in front of a value adapter
+  propertyNameText?: string;
+  adapterNeedsParens?: boolean;
+  // typed parameters of an adapter arrow in a TypeScript file
+  adapterParamsText?: string[];
+  // surrounding code shown when reviewing a function passed as a value
+  contextText?: string;
+  // converted parameter list of an override or implementation
+  declarationText?: string;
+  // shared by a .bind() with bound args and the calls of its result, which
+  // are converted or skipped together
+  group?: number;
 }
 
 export interface CollectedCalls {
@@ -84,13 +70,21 @@ export function resolveSymbol(
   fnName: string | null
 ): SymbolResolution {
   const typeChecker = project.getTypeChecker();
-  let targetSym = targetFunction.getSymbol && targetFunction.getSymbol();
-
-  // For arrow functions/function expressions in variables, get symbol from the variable
-  if (!targetSym && targetVariableDeclaration) {
-    targetSym =
-      targetVariableDeclaration.getSymbol &&
-      targetVariableDeclaration.getSymbol();
+  // For arrow functions/function expressions in variables, get symbol from
+  // the variable. Once the file is bound the function itself has an
+  // anonymous symbol that no call resolves to.
+  let targetSym =
+    targetVariableDeclaration &&
+    targetVariableDeclaration.getSymbol &&
+    targetVariableDeclaration.getSymbol();
+  // CommonJS exports are declared by the assignment's property name
+  if (!targetSym) {
+    targetSym = functions
+      .getCommonJsExportNameNode(targetFunction)
+      ?.getSymbol();
+  }
+  if (!targetSym) {
+    targetSym = targetFunction.getSymbol && targetFunction.getSymbol();
   }
 
   const resolvedTarget =
@@ -110,22 +104,32 @@ export function resolveSymbol(
   };
 }
 
+export interface ParameterTypeMember {
+  name: string;
+  typeText: string;
+  isOptional: boolean;
+  description?: string;
+}
+
 /**
- * Extract parameter types and build the type text for the destructured parameter
+ * Extract the type of each parameter as a member of the object parameter's
+ * type, with its description when one is given. Returns an empty list
+ * outside TypeScript files.
  */
-export function extractParameterTypes(
+export function extractParameterTypeMembers(
   params: any[],
   paramNames: string[],
   sourceFile: SourceFile,
   isRestParameter: boolean,
-  restTupleElements: string[]
-): string {
+  restTupleElements: string[],
+  descriptions: Map<string, string> = new Map()
+): ParameterTypeMember[] {
   const isTypeScript =
     sourceFile.getFilePath().endsWith('.ts') ||
     sourceFile.getFilePath().endsWith('.tsx');
 
   if (!isTypeScript) {
-    return '';
+    return [];
   }
 
   const paramTypes = params.map((p: any) => {
@@ -152,61 +156,220 @@ export function extractParameterTypes(
     return pType ? pType.getText() : 'any';
   });
 
+  const isParamOptional = (param: any): boolean => {
+    const hasQuestion =
+      param && typeof param.hasQuestionToken === 'function'
+        ? param.hasQuestionToken()
+        : false;
+    const hasInitializer =
+      param && typeof param.hasInitializer === 'function'
+        ? param.hasInitializer()
+        : false;
+    return hasQuestion || hasInitializer;
+  };
+
   if (isRestParameter) {
     const flatTypes = paramTypes.flat();
-    return `{ ${paramNames
-      .map((n: string, i: number) => {
-        const param = params[0];
-        const hasQuestion =
-          param && typeof param.hasQuestionToken === 'function'
-            ? param.hasQuestionToken()
-            : false;
-        const hasInitializer =
-          param && typeof param.hasInitializer === 'function'
-            ? param.hasInitializer()
-            : false;
-        const isOptional = hasQuestion || hasInitializer;
-        const optionalMark = isOptional ? '?' : '';
-        return `${n}${optionalMark}: ${flatTypes[i] || 'any'}`;
-      })
-      .join('; ')} }`;
-  } else {
-    return `{ ${paramNames
-      .map((n: string, i: number) => {
-        const param = params[i];
-        const hasQuestion =
-          param && typeof param.hasQuestionToken === 'function'
-            ? param.hasQuestionToken()
-            : false;
-        const hasInitializer =
-          param && typeof param.hasInitializer === 'function'
-            ? param.hasInitializer()
-            : false;
-        const isOptional = hasQuestion || hasInitializer;
-        const optionalMark = isOptional ? '?' : '';
-        return `${n}${optionalMark}: ${paramTypes[i] || 'any'}`;
-      })
-      .join('; ')} }`;
+    return paramNames.map((n: string, i: number) => ({
+      name: n,
+      typeText: flatTypes[i] || 'any',
+      isOptional: isParamOptional(params[0]),
+    }));
   }
+  return paramNames.map((n: string, i: number) => ({
+    name: n,
+    typeText: paramTypes[i] || 'any',
+    isOptional: isParamOptional(params[i]),
+    description: descriptions.get(n),
+  }));
 }
 
-export async function createProjectFromConfig(
-  workspaceRoot: string
-): Promise<Project> {
-  const project = new Project({
-    tsConfigFilePath: undefined,
-    compilerOptions: { allowJs: true, checkJs: false },
+/**
+ * Extract parameter types and build the type text for the destructured parameter
+ */
+export function extractParameterTypes(
+  params: any[],
+  paramNames: string[],
+  sourceFile: SourceFile,
+  isRestParameter: boolean,
+  restTupleElements: string[],
+  descriptions: Map<string, string> = new Map()
+): string {
+  const members = extractParameterTypeMembers(
+    params,
+    paramNames,
+    sourceFile,
+    isRestParameter,
+    restTupleElements,
+    descriptions
+  );
+  if (!members.length) {
+    return '';
+  }
+  return `{ ${members
+    .map(
+      (m) =>
+        `${m.description ? text.formatDocComment(m.description) + ' ' : ''}${
+          m.name
+        }${m.isOptional ? '?' : ''}: ${m.typeText}`
+    )
+    .join('; ')} }`;
+}
+
+const PROJECT_CONFIG_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+/**
+ * Nearest tsconfig.json or jsconfig.json above the file, stopping at the
+ * workspace root
+ */
+export function findProjectConfig(
+  workspaceRoot: string,
+  filePath?: string
+): string | null {
+  const root = path.resolve(workspaceRoot);
+  let dir = filePath ? path.dirname(path.resolve(filePath)) : root;
+  if (path.relative(root, dir).startsWith('..')) {
+    dir = root;
+  }
+  for (;;) {
+    for (const name of PROJECT_CONFIG_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    if (dir === root) {
+      return null;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+interface ParsedProjectConfig {
+  configPath: string;
+  fileNames: string[];
+  options: ts.CompilerOptions;
+}
+
+/**
+ * Parse a tsconfig/jsconfig and every project it references, recursively
+ */
+function parseProjectConfigs(
+  configPath: string,
+  visited = new Set<string>()
+): ParsedProjectConfig[] {
+  const resolved = path.resolve(configPath);
+  if (visited.has(resolved)) {
+    return [];
+  }
+  visited.add(resolved);
+
+  const { config, error } = ts.readConfigFile(resolved, ts.sys.readFile);
+  if (error) {
+    log(
+      'Error reading',
+      resolved,
+      ts.flattenDiagnosticMessageText(error.messageText, '\n')
+    );
+    return [];
+  }
+  const isJsConfig = path.basename(resolved) === 'jsconfig.json';
+  const parsed = ts.parseJsonConfigFileContent(
+    config,
+    ts.sys,
+    path.dirname(resolved),
+    isJsConfig ? { allowJs: true, checkJs: false } : undefined,
+    resolved
+  );
+
+  const result: ParsedProjectConfig[] = [
+    { configPath: resolved, fileNames: parsed.fileNames, options: parsed.options },
+  ];
+  for (const ref of parsed.projectReferences || []) {
+    result.push(
+      ...parseProjectConfigs(ts.resolveProjectReferencePath(ref), visited)
+    );
+  }
+  return result;
+}
+
+/**
+ * Merge the `paths` of several configs. Targets are made absolute so each
+ * keeps resolving against its own config's baseUrl, and the baseUrl of a
+ * config other than the first becomes a `*` mapping.
+ */
+function mergeConfigPaths(
+  configs: ParsedProjectConfig[]
+): ts.MapLike<string[]> | undefined {
+  const merged: ts.MapLike<string[]> = {};
+  let found = false;
+  configs.forEach(({ configPath, options }, i) => {
+    const base =
+      options.baseUrl ||
+      (options.pathsBasePath as string | undefined) ||
+      path.dirname(configPath);
+    const entries = Object.entries(options.paths || {});
+    if (i > 0 && options.baseUrl && options.baseUrl !== configs[0].options.baseUrl) {
+      entries.push(['*', ['*']]);
+    }
+    for (const [key, targets] of entries) {
+      const absolute = targets.map((t) => path.resolve(base, t));
+      merged[key] = [...(merged[key] || []), ...absolute];
+      found = true;
+    }
   });
+  return found ? merged : undefined;
+}
+
+/** Options that allow more files or syntax, on when any config sets them */
+const PERMISSIVE_OPTIONS = [
+  'allowJs',
+  'allowSyntheticDefaultImports',
+  'esModuleInterop',
+  'experimentalDecorators',
+  'resolveJsonModule',
+];
 
-  // Read include/exclude globs from configuration (space-separated strings)
-  const cfg = vscode.workspace.getConfiguration('objectifyParams');
-  const includeStr =
-    (cfg.get('6.include') as string) || '**/*.ts **/*.js';
-  const excludeStr =
-    (cfg.get('5.exclude') as string) || '**/node_modules/**';
-  const includePatterns = includeStr.split(/\s+/).filter(Boolean);
-  const excludePatterns = excludeStr.split(/\s+/).filter(Boolean);
+/** Options that change how imports resolve or files parse */
+const RESOLUTION_OPTIONS = ['module', 'moduleResolution', 'jsx'];
 
+/**
+ * One set of compiler options for several configs. The first config (the
+ * target file's) provides them; permissive options are merged and a
+ * differing resolution option is logged.
+ */
+function mergeCompilerOptions(
+  configs: ParsedProjectConfig[]
+): ts.CompilerOptions {
+  const merged: ts.CompilerOptions = { ...configs[0].options };
+  for (const { configPath, options } of configs.slice(1)) {
+    for (const name of PERMISSIVE_OPTIONS) {
+      if (options[name]) {
+        merged[name] = true;
+      }
+    }
+    for (const name of RESOLUTION_OPTIONS) {
+      if (options[name] !== undefined && options[name] !== merged[name]) {
+        log(
+          `${configPath} sets ${name} to ${String(options[name])};`,
+          `using ${String(merged[name])} from ${configs[0].configPath}`
+        );
+      }
+    }
+  }
+  merged.paths = mergeConfigPaths(configs);
+  return merged;
+}
+
+function globFiles(
+  workspaceRoot: string,
+  includePatterns: string[],
+  excludePatterns: string[]
+): string[] {
   // Use glob to find files (respects our exclude patterns, not .gitignore)
   const foundSet = new Set<string>();
 
@@ -224,7 +387,103 @@ export async function createProjectFromConfig(
     }
   }
 
-  const jsTsFiles = Array.from(foundSet);
+  return Array.from(foundSet);
+}
+
+/** .vue and .svelte files in the scanned folders */
+function findComponentFiles(folderRoots: string[]): string[] {
+  return Array.from(
+    new Set(
+      folderRoots.flatMap((folderRoot) =>
+        globFiles(
+          folderRoot,
+          ['**/*.vue', '**/*.svelte'],
+          utils.getFolderGlobs(folderRoot).excludePatterns
+        )
+      )
+    )
+  );
+}
+
+/**
+ * Build the project from the tsconfig.json/jsconfig.json files of each
+ * scanned workspace folder (following their references) so paths, baseUrl
+ * and the configs' file lists are honored. A folder's include setting adds
+ * files and its exclude setting removes them. A folder without a config at
+ * its root is also scanned with the include globs, every .ts and .js file
+ * by default, so callers outside the file's config are found.
+ */
+export async function createProjectFromConfig(
+  workspaceRoot: string,
+  filePath?: string,
+  folderRoots: string[] = [workspaceRoot]
+): Promise<Project> {
+  const visited = new Set<string>();
+  const configs: ParsedProjectConfig[] = [];
+  const found = new Set<string>();
+  let hasFolderWithoutConfig = false;
+
+  for (const folderRoot of folderRoots) {
+    // Each folder has its own include/exclude settings
+    const { includePatterns, excludePatterns } =
+      utils.getFolderGlobs(folderRoot);
+
+    // The file's own config comes first and provides the compiler options;
+    // the folder's root config (often a solution of references) adds the
+    // rest of the folder so callers in other projects are found
+    const rootConfig = findProjectConfig(folderRoot);
+    const folderConfigs = [
+      folderRoot === workspaceRoot
+        ? findProjectConfig(workspaceRoot, filePath)
+        : null,
+      rootConfig,
+    ]
+      .filter((c): c is string => Boolean(c))
+      .flatMap((c) => parseProjectConfigs(c, visited));
+    configs.push(...folderConfigs);
+
+    for (const f of folderConfigs.flatMap((c) => c.fileNames)) {
+      if (!utils.matchesGlobs(f, folderRoot, excludePatterns)) {
+        found.add(path.normalize(f));
+      }
+    }
+    // Without a config at the folder root, files outside the file's
+    // config (e.g. sibling packages) are found by the default globs,
+    // skipping the configs' build output
+    if (!rootConfig) {
+      hasFolderWithoutConfig = true;
+    }
+    const outDirs = folderConfigs
+      .map((c) => c.options.outDir)
+      .filter((d): d is string => Boolean(d));
+    const patterns =
+      includePatterns.length || rootConfig
+        ? includePatterns
+        : ['**/*.ts', '**/*.js'];
+    for (const f of globFiles(folderRoot, patterns, excludePatterns)) {
+      if (!outDirs.some((d) => !path.relative(d, f).startsWith('..'))) {
+        found.add(path.normalize(f));
+      }
+    }
+  }
+
+  let project: Project;
+  if (configs.length) {
+    log('Using project configs', configs.map((c) => c.configPath));
+    project = new Project({
+      compilerOptions: {
+        ...mergeCompilerOptions(configs),
+        // folders without a root config are scanned as plain JS/TS
+        ...(hasFolderWithoutConfig ? { allowJs: true } : {}),
+      },
+    });
+  } else {
+    project = new Project({
+      tsConfigFilePath: undefined,
+      compilerOptions: { allowJs: true, checkJs: false },
+    });
+  }
+  const jsTsFiles = Array.from(found);
 
   log('Found', jsTsFiles.length, 'files to add to project');
   log('Sample files:', jsTsFiles.slice(0, 5));
@@ -245,9 +504,52 @@ export async function createProjectFromConfig(
     }
   }
 
+  // Script blocks of components are added as virtual source files
+  for (const componentPath of findComponentFiles(folderRoots)) {
+    try {
+      sfc.syncScriptSourceFile(
+        project,
+        componentPath,
+        fs.readFileSync(componentPath, 'utf8')
+      );
+    } catch (e) {
+      log('error loading script blocks of', componentPath, e);
+    }
+  }
+
   return project;
 }
 
+// Syntax-only parses of open documents, for features that run on every
+// edit (code actions, diagnostics) and must not build the whole project
+const syntaxProject = new Project({
+  useInMemoryFileSystem: true,
+  compilerOptions: { allowJs: true, noLib: true },
+});
+const syntaxVersions = new Map<string, number>();
+
+/** Parse a document on its own, reusing the parse while its version is unchanged */
+export function getSyntaxSourceFile(document: vscode.TextDocument): SourceFile {
+  const filePath = document.uri.fsPath;
+  const existing = syntaxProject.getSourceFile(filePath);
+  if (existing && syntaxVersions.get(filePath) === document.version) {
+    return existing;
+  }
+  syntaxVersions.set(filePath, document.version);
+  return syntaxProject.createSourceFile(filePath, document.getText(), {
+    overwrite: true,
+  });
+}
+
+export function releaseSyntaxSourceFile(document: vscode.TextDocument): void {
+  const filePath = document.uri.fsPath;
+  const existing = syntaxProject.getSourceFile(filePath);
+  if (existing) {
+    syntaxProject.removeSourceFile(existing);
+  }
+  syntaxVersions.delete(filePath);
+}
+
 export function getSymbolName(symbol: any): string | null {
   if (!symbol) return null;
   return symbol.getFullyQualifiedName
@@ -284,9 +586,669 @@ export function findFunctionsInFile(
   return result;
 }
 
+/** Text of an expression that can be followed by `[i]` */
+function elementAccessBaseText(node: any): string {
+  const isSimple = [
+    SyntaxKind.Identifier,
+    SyntaxKind.PropertyAccessExpression,
+    SyntaxKind.ElementAccessExpression,
+    SyntaxKind.CallExpression,
+  ].includes(node.getKind());
+  return isSimple ? node.getText() : `(${node.getText()})`;
+}
+
+interface ExpandedArgs {
+  argsText: string[];
+  // reason the call needs review, if any spread could not be expanded
+  spreadReason?: 'spread-non-tuple' | 'spread-repeated-expr';
+}
+
+/**
+ * Expand spread arguments into one argument per position. A spread of an
+ * array literal or of a fixed-length tuple type is expanded exactly; any
+ * other spread fills the parameters left before the arguments that follow
+ * it by index and needs review.
+ */
+function expandSpreadArgs(args: any[], paramCount: number): ExpandedArgs {
+  const argsText: string[] = [];
+  let spreadReason: ExpandedArgs['spreadReason'];
+
+  for (const [index, arg] of args.entries()) {
+    if (!arg) {
+      argsText.push('undefined');
+      continue;
+    }
+    if (arg.getKind() !== SyntaxKind.SpreadElement) {
+      argsText.push(arg.getText());
+      continue;
+    }
+
+    const spreadExpr = arg.getExpression();
+    const literal =
+      spreadExpr.getKind() === SyntaxKind.ArrayLiteralExpression
+        ? spreadExpr
+        : null;
+    if (
+      literal &&
+      !literal
+        .getElements()
+        .some((e: any) => e.getKind() === SyntaxKind.SpreadElement)
+    ) {
+      argsText.push(...literal.getElements().map((e: any) => e.getText()));
+      continue;
+    }
+
+    const baseText = elementAccessBaseText(spreadExpr);
+    let tupleLength = -1;
+    try {
+      const type = spreadExpr.getType();
+      const target = type.compilerType?.target;
+      if (type.isTuple() && !target?.hasRestElement) {
+        tupleLength = type.getTupleElements().length;
+      }
+    } catch (e) {
+      log('Error reading spread argument type:', e);
+    }
+
+    if (tupleLength < 0) {
+      // Unknown length: assume the array fills the params up to the args
+      // that follow it, which keep their own positions
+      const followingCount = args.length - index - 1;
+      for (let i = 0; argsText.length < paramCount - followingCount; i++) {
+        argsText.push(`${baseText}[${i}]`);
+      }
+      spreadReason = 'spread-non-tuple';
+      continue;
+    }
+    const unwrapped = spreadExpr.getKind() === SyntaxKind.AsExpression
+      ? spreadExpr.getExpression()
+      : spreadExpr;
+    if (
+      unwrapped.getKind() === SyntaxKind.CallExpression ||
+      unwrapped.getKind() === SyntaxKind.NewExpression
+    ) {
+      // Reading the elements by index would evaluate the expression again
+      spreadReason = spreadReason ?? 'spread-repeated-expr';
+    }
+    for (let i = 0; i < tupleLength; i++) {
+      argsText.push(`${baseText}[${i}]`);
+    }
+  }
+
+  return { argsText, spreadReason };
+}
+
+// Parents of a reference that neither call the function nor pass it on
+const NON_VALUE_REFERENCE_PARENTS = [
+  SyntaxKind.ImportSpecifier,
+  SyntaxKind.ImportClause,
+  SyntaxKind.NamespaceImport,
+  SyntaxKind.ImportEqualsDeclaration,
+  SyntaxKind.ExportSpecifier,
+  SyntaxKind.ExportAssignment,
+  SyntaxKind.TypeQuery,
+  SyntaxKind.QualifiedName,
+];
+
+/** A shorthand property of `module.exports = { send }`, which exports it */
+function isCommonJsExportProperty(node: any): boolean {
+  const object = node.getParent();
+  const assignment = object?.getParent();
+  return (
+    Node.isShorthandPropertyAssignment(node) &&
+    Node.isObjectLiteralExpression(object) &&
+    Node.isBinaryExpression(assignment) &&
+    assignment.getRight() === object &&
+    assignment.getOperatorToken().getKind() === SyntaxKind.EqualsToken &&
+    ['exports', 'module.exports'].includes(assignment.getLeft().getText())
+  );
+}
+
+/**
+ * References to the target that use the function as a value, such as
+ * `items.map(formatRow)` or `emitter.on('x', handler)`. Calls, member
+ * access (including .call/.apply/.bind), imports, exports and
+ * declarations are left out.
+ */
+function findValueReferences(resolvedTarget: any): any[] {
+  const decls = resolvedTarget?.getDeclarations?.() || [];
+  const nameNode = decls
+    .map((d: any) => d.getNameNode?.())
+    .find((n: any) => n && n.getKind() === SyntaxKind.Identifier);
+  if (!nameNode) {
+    return [];
+  }
+
+  let refs: any[] = [];
+  try {
+    refs = nameNode.findReferencesAsNodes();
+  } catch (e) {
+    log('Error finding value references:', e);
+    return [];
+  }
+
+  const result: any[] = [];
+  for (const ref of refs) {
+    const sf = ref.getSourceFile();
+    if (
+      sf.isDeclarationFile() ||
+      sf.getFilePath().indexOf(path.sep + 'node_modules' + path.sep) >= 0
+    ) {
+      continue;
+    }
+    let node = ref;
+    let parent = node.getParent();
+    if (!parent) continue;
+    if (
+      parent.getKind() === SyntaxKind.PropertyAccessExpression &&
+      parent.getNameNode() === node
+    ) {
+      node = parent;
+      parent = node.getParent();
+      if (!parent) continue;
+    }
+    const parentKind = parent.getKind();
+    if (NON_VALUE_REFERENCE_PARENTS.includes(parentKind)) continue;
+    if (isCommonJsExportProperty(parent)) continue;
+    if (
+      (parentKind === SyntaxKind.CallExpression ||
+        parentKind === SyntaxKind.NewExpression ||
+        parentKind === SyntaxKind.PropertyAccessExpression ||
+        parentKind === SyntaxKind.ElementAccessExpression ||
+        parentKind === SyntaxKind.TaggedTemplateExpression) &&
+      parent.getExpression?.() === node
+    ) {
+      continue;
+    }
+    if (
+      parentKind !== SyntaxKind.ShorthandPropertyAssignment &&
+      parent.getNameNode?.() === node
+    ) {
+      // the declaration itself, or a property key
+      continue;
+    }
+    if (
+      parentKind === SyntaxKind.BindingElement &&
+      parent.getPropertyNameNode() === node
+    ) {
+      // destructured from a module: const { send: s } = require('./mail')
+      continue;
+    }
+    if (
+      parentKind === SyntaxKind.BinaryExpression &&
+      parent.getLeft() === node &&
+      parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken
+    ) {
+      continue;
+    }
+    result.push(node);
+  }
+  return result;
+}
+
+// Parents where an arrow function can replace the reference as is
+const BARE_ARROW_PARENTS = [
+  SyntaxKind.CallExpression,
+  SyntaxKind.NewExpression,
+  SyntaxKind.VariableDeclaration,
+  SyntaxKind.PropertyAssignment,
+  SyntaxKind.ShorthandPropertyAssignment,
+  SyntaxKind.PropertyDeclaration,
+  SyntaxKind.ReturnStatement,
+  SyntaxKind.ArrayLiteralExpression,
+  SyntaxKind.ArrowFunction,
+  SyntaxKind.ConditionalExpression,
+  SyntaxKind.ParenthesizedExpression,
+];
+
+/** One-line snippet of the code around a function passed as a value */
+function valueReferenceContext(node: any): string {
+  const parent = node.getParent();
+  const contextNode =
+    parent &&
+    (parent.getKind() === SyntaxKind.CallExpression ||
+      parent.getKind() === SyntaxKind.NewExpression)
+      ? parent
+      : node.getFirstAncestor((a: any) => Node.isStatement(a)) || node;
+  const oneLine = contextNode.getText().replace(/\s+/g, ' ').trim();
+  return oneLine.length > 80 ? oneLine.slice(0, 77) + '...' : oneLine;
+}
+
+/**
+ * Compare a called symbol with the target by declaration location,
+ * falling back to the qualified name
+ */
+function symbolsMatch(resolvedTarget: any, resolvedCalled: any): boolean {
+  try {
+    const targetDecls = resolvedTarget.getDeclarations?.() || [];
+    const calledDecls = resolvedCalled.getDeclarations?.() || [];
+
+    // Check if any declaration locations match
+    for (const tDecl of targetDecls) {
+      for (const cDecl of calledDecls) {
+        const tFile = tDecl.getSourceFile?.()?.getFilePath?.();
+        const cFile = cDecl.getSourceFile?.()?.getFilePath?.();
+        const tStart = tDecl.getStart?.();
+        const cStart = cDecl.getStart?.();
+
+        // The kind tells a CommonJS export at offset 0 from the module
+        if (
+          tFile &&
+          cFile &&
+          tFile === cFile &&
+          tStart === cStart &&
+          tDecl.getKind() === cDecl.getKind()
+        ) {
+          return true;
+        }
+      }
+    }
+    return false;
+  } catch (e) {
+    // Fall back to name comparison
+    const fnId = resolvedTarget.getFullyQualifiedName
+      ? resolvedTarget.getFullyQualifiedName()
+      : resolvedTarget.getEscapedName && resolvedTarget.getEscapedName();
+    const callId = resolvedCalled.getFullyQualifiedName
+      ? resolvedCalled.getFullyQualifiedName()
+      : resolvedCalled.getEscapedName && resolvedCalled.getEscapedName();
+    return Boolean(fnId && callId && fnId === callId);
+  }
+}
+
+/**
+ * `require('./x')` or `import('./x')`, possibly awaited, parenthesized or
+ * followed by property accesses
+ */
+function isModuleLoadExpression(node: any): boolean {
+  let current = node;
+  while (
+    Node.isAwaitExpression(current) ||
+    Node.isParenthesizedExpression(current) ||
+    Node.isPropertyAccessExpression(current)
+  ) {
+    current = current.getExpression();
+  }
+  if (!Node.isCallExpression(current)) return false;
+  const callee = current.getExpression();
+  return (
+    callee.getKind() === SyntaxKind.ImportKeyword ||
+    callee.getText() === 'require'
+  );
+}
+
+/**
+ * The export behind a variable loaded from a module, which the checker
+ * leaves as a local for dynamic imports, e.g.
+ * `const { send } = await import('./mail')` or
+ * `const send = (await import('./mail')).send`
+ */
+function resolveModuleLoadedSymbol(sym: any): any {
+  const decl = sym.getDeclarations?.()[0];
+  if (!decl) return sym;
+  if (Node.isBindingElement(decl)) {
+    const pattern = decl.getParent();
+    const varDecl = pattern.getParent();
+    const init = Node.isVariableDeclaration(varDecl)
+      ? varDecl.getInitializer()
+      : undefined;
+    if (
+      !Node.isObjectBindingPattern(pattern) ||
+      !init ||
+      !isModuleLoadExpression(init)
+    ) {
+      return sym;
+    }
+    const propName =
+      decl.getPropertyNameNode()?.getText() ?? decl.getName();
+    const prop = init.getType().getProperty(propName);
+    return prop ? prop.getAliasedSymbol?.() || prop : sym;
+  }
+  if (Node.isVariableDeclaration(decl)) {
+    const init = decl.getInitializer();
+    if (
+      init &&
+      Node.isPropertyAccessExpression(init) &&
+      isModuleLoadExpression(init)
+    ) {
+      const prop = init.getNameNode().getSymbol();
+      return prop ? prop.getAliasedSymbol?.() || prop : sym;
+    }
+  }
+  return sym;
+}
+
+function resolveNodeSymbol(node: any): any {
+  try {
+    const sym = node.getSymbol && node.getSymbol();
+    return (
+      sym &&
+      resolveModuleLoadedSymbol(
+        sym.getAliasedSymbol ? sym.getAliasedSymbol?.() || sym : sym
+      )
+    );
+  } catch (e) {
+    log('Error resolving symbol:', e);
+    return null;
+  }
+}
+
+/**
+ * The constructor a `new` expression calls, possibly inherited from a base
+ * class. Its callee resolves to the class instead.
+ */
+function resolveConstructorSymbol(typeChecker: any, newExpr: any): any {
+  try {
+    const decl = typeChecker.getResolvedSignature(newExpr)?.getDeclaration();
+    return decl && Node.isConstructorDeclaration(decl) ? decl.getSymbol() : null;
+  } catch (e) {
+    log('Error resolving constructor:', e);
+    return null;
+  }
+}
+
+/**
+ * Other names the target is imported or exported under, such as `mkUser`
+ * in `import { createUser as mkUser }` or `makeUser` in a barrel's
+ * `export { createUser as makeUser }`. Each alias is resolved through
+ * re-exports back to its declaration.
+ */
+function findAliasNames(
+  files: SourceFile[],
+  resolvedTarget: any,
+  fnName: string
+): Set<string> {
+  const names = new Set<string>();
+  for (const sf of files) {
+    if (
+      sf.isDeclarationFile() ||
+      sf.getFilePath().indexOf(path.sep + 'node_modules' + path.sep) >= 0
+    ) {
+      continue;
+    }
+    const nameNodes: any[] = [];
+    for (const decl of sf.getImportDeclarations()) {
+      const defaultImport = decl.getDefaultImport();
+      if (defaultImport) nameNodes.push(defaultImport);
+      for (const spec of decl.getNamedImports()) {
+        nameNodes.push(spec.getAliasNode() ?? spec.getNameNode());
+      }
+    }
+    for (const decl of sf.getExportDeclarations()) {
+      for (const spec of decl.getNamedExports()) {
+        nameNodes.push(spec.getAliasNode() ?? spec.getNameNode());
+      }
+    }
+    // CommonJS and dynamic imports: const { send: s } = require('./mail')
+    for (const decl of sf.getDescendantsOfKind(SyntaxKind.VariableDeclaration)) {
+      const init = decl.getInitializer();
+      if (!init || !isModuleLoadExpression(init)) continue;
+      const nameNode = decl.getNameNode();
+      if (Node.isObjectBindingPattern(nameNode)) {
+        for (const element of nameNode.getElements()) {
+          nameNodes.push(element.getNameNode());
+        }
+      } else {
+        nameNodes.push(nameNode);
+      }
+    }
+    for (const node of nameNodes) {
+      const name = node.getText();
+      if (name === fnName || names.has(name)) continue;
+      const resolved = resolveNodeSymbol(node);
+      if (resolved && symbolsMatch(resolvedTarget, resolved)) {
+        names.add(name);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Start offset of the overload signature a call resolves to, if the
+ * called function is overloaded
+ */
+function getResolvedOverloadStart(
+  project: Project,
+  call: any
+): number | undefined {
+  try {
+    const signature = project.getTypeChecker().getResolvedSignature(call);
+    const decl: any = signature && signature.getDeclaration();
+    if (decl && typeof decl.isOverload === 'function' && decl.isOverload()) {
+      return decl.getStart();
+    }
+  } catch (e) {
+    log('Error resolving overload signature:', e);
+  }
+  return undefined;
+}
+
+function getObjectLiteralProps(
+  objLiteral: any
+): text.ObjectArgProperty[] | null {
+  const props: text.ObjectArgProperty[] = [];
+  for (const prop of objLiteral.getProperties()) {
+    const kind = prop.getKind();
+    if (kind === SyntaxKind.ShorthandPropertyAssignment) {
+      props.push({ name: prop.getName(), valueText: prop.getName() });
+    } else if (kind === SyntaxKind.PropertyAssignment) {
+      const nameNode = prop.getNameNode();
+      const nameKind = nameNode.getKind();
+      if (nameKind === SyntaxKind.ComputedPropertyName) {
+        return null;
+      }
+      const name =
+        nameKind === SyntaxKind.StringLiteral ||
+        nameKind === SyntaxKind.NoSubstitutionTemplateLiteral
+          ? nameNode.getLiteralText()
+          : nameNode.getText();
+      props.push({ name, valueText: prop.getInitializer().getText() });
+    } else {
+      // spread assignments, methods and accessors have no positional form
+      return null;
+    }
+  }
+  return props;
+}
+
+/** Project files that can be edited, leaving out declarations and node_modules */
+function getEditableSourceFiles(project: Project): SourceFile[] {
+  return project
+    .getSourceFiles()
+    .filter(
+      (sf) =>
+        !sf.isDeclarationFile() &&
+        sf.getFilePath().indexOf(path.sep + 'node_modules' + path.sep) < 0
+    );
+}
+
+/** Whether a type is callable through the contract's signature */
+function isTypedByContract(type: any, contract: any): boolean {
+  return Boolean(
+    type &&
+      type
+        .getNonNullableType()
+        .getCallSignatures()
+        .some(
+          (sig: any) =>
+            sig.compilerSignature.getDeclaration() === contract.compilerNode
+        )
+  );
+}
+
+/**
+ * Functions typed by a contract instead of declaring their own signature:
+ * `const h: Handler = (req, id) => {}`, lambdas passed where a Handler is
+ * expected, and methods of object literals typed by an interface
+ */
+export function findContractImplementations(
+  project: Project,
+  contract: any
+): any[] {
+  const typeChecker = project.getTypeChecker();
+  const implementations: any[] = [];
+  for (const sf of getEditableSourceFiles(project)) {
+    const candidates = [
+      ...sf.getDescendantsOfKind(SyntaxKind.ArrowFunction),
+      ...sf.getDescendantsOfKind(SyntaxKind.FunctionExpression),
+      ...sf.getDescendantsOfKind(SyntaxKind.MethodDeclaration),
+    ];
+    for (const fn of candidates) {
+      try {
+        if (Node.isMethodDeclaration(fn)) {
+          const literal = fn.getParent();
+          if (!Node.isObjectLiteralExpression(literal)) continue;
+          const prop = typeChecker
+            .getContextualType(literal)
+            ?.getNonNullableType()
+            .getProperty(fn.getName());
+          if (
+            prop &&
+            (prop.getDeclarations().includes(contract) ||
+              isTypedByContract(
+                typeChecker.getTypeOfSymbolAtLocation(prop, literal),
+                contract
+              ))
+          ) {
+            implementations.push(fn);
+          }
+        } else if (
+          isTypedByContract(typeChecker.getContextualType(fn), contract)
+        ) {
+          implementations.push(fn);
+        }
+      } catch (e) {
+        log('Error resolving contextual type:', e);
+      }
+    }
+  }
+  return implementations;
+}
+
+/**
+ * The contract typing a function that doesn't declare its own signature:
+ * `Fn` for `const f: Fn = (a, b) => {}`, or the interface method signature
+ * of a method in a typed object literal. Null when there is none or the
+ * type has several call signatures.
+ */
+export function getImplementedContract(project: Project, fn: any): any | null {
+  const typeChecker = project.getTypeChecker();
+  try {
+    let type: any;
+    if (Node.isMethodDeclaration(fn)) {
+      const literal = fn.getParent();
+      if (!Node.isObjectLiteralExpression(literal)) return null;
+      const prop = typeChecker
+        .getContextualType(literal)
+        ?.getNonNullableType()
+        .getProperty(fn.getName());
+      if (!prop) return null;
+      const signature = prop
+        .getDeclarations()
+        .find((d: any) => functions.isContract(d));
+      if (signature) return signature;
+      type = typeChecker.getTypeOfSymbolAtLocation(prop, literal);
+    } else if (Node.isArrowFunction(fn) || Node.isFunctionExpression(fn)) {
+      type = typeChecker.getContextualType(fn);
+    } else {
+      return null;
+    }
+    const signatures = type?.getNonNullableType().getCallSignatures() || [];
+    const decl = signatures.length === 1 && signatures[0].getDeclaration();
+    return decl && functions.isContract(decl) ? decl : null;
+  } catch (e) {
+    log('Error resolving contextual type:', e);
+    return null;
+  }
+}
+
+/**
+ * Whether a function passed as a value goes where the contract is expected,
+ * such as `run(f)` for `run(h: Fn)`, so it needs no adapter
+ */
+export function isPassedAsContract(
+  project: Project,
+  candidate: CallCandidate,
+  contract: any
+): boolean {
+  const sf = project.getSourceFile(candidate.filePath);
+  const node = sf?.getDescendantAtPos(candidate.start);
+  if (!node || !Node.isIdentifier(node)) return false;
+  try {
+    return isTypedByContract(
+      project.getTypeChecker().getContextualType(node),
+      contract
+    );
+  } catch (e) {
+    log('Error resolving contextual type:', e);
+    return false;
+  }
+}
+
+/**
+ * Calls made through a value typed by a function type or call signature,
+ * such as `handler(req, id)` for `handler: Handler`, found by the
+ * signature each call resolves to
+ */
+export function collectContractCalls(
+  project: Project,
+  contract: any,
+  paramNames: string[]
+): CollectedCalls {
+  const typeChecker = project.getTypeChecker();
+  const confirmed: CallCandidate[] = [];
+  const fuzzy: CallCandidate[] = [];
+  let alreadyConvertedCount = 0;
+  for (const sf of getEditableSourceFiles(project)) {
+    const sfPath = sf.getFilePath();
+    for (const call of sf.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      let signature: any;
+      try {
+        signature = typeChecker.getResolvedSignature(call);
+      } catch (e) {
+        log('Error resolving signature:', e);
+        continue;
+      }
+      if (
+        !signature ||
+        signature.compilerSignature.getDeclaration() !== contract.compilerNode
+      ) {
+        continue;
+      }
+      const { argsText, spreadReason } = expandSpreadArgs(
+        call.getArguments(),
+        paramNames.length
+      );
+      const candidate: CallCandidate = {
+        filePath: sfc.getComponentPath(sfPath) ?? sfPath,
+        start: call.getStart(),
+        end: call.getEnd(),
+        exprText:
+          call.getExpression().getText() +
+          (call.hasQuestionDotToken() ? '?.' : ''),
+        argsText,
+      };
+      if (argsText.length === 1 && argsText[0].trim().startsWith('{')) {
+        alreadyConvertedCount++;
+      } else if (argsText.length > paramNames.length) {
+        fuzzy.push({ ...candidate, reason: 'too-many-args', score: 3 });
+      } else if (spreadReason) {
+        fuzzy.push({ ...candidate, reason: spreadReason, score: 2 });
+      } else {
+        confirmed.push(candidate);
+      }
+    }
+  }
+  log('contract calls:', confirmed.length, 'confirmed,', fuzzy.length, 'fuzzy');
+  return { confirmed, fuzzy, shouldAbort: false, alreadyConvertedCount };
+}
+
 /**
  * Collect all calls to the target function across the workspace
  * Returns confirmed calls, fuzzy calls, and whether to abort
+ * When objectArgMode is set the target takes an object parameter and calls
+ * are classified by their object argument instead (used by positionalize).
  */
 export async function collectCalls(
   project: Project,
@@ -302,11 +1264,15 @@ export async function collectCalls(
   isTargetFunctionNested: boolean,
   targetVariableStart?: number,
   targetIsConstructor = false,
-  targetRequiresPropertyAccess = false
+  targetRequiresPropertyAccess = false,
+  objectArgMode = false,
+  folderRoots: string[] = [workspaceRoot],
+  familySymbols: any[] = []
 ): Promise<CollectedCalls> {
+  // A component's script source file counts as the component file
   const normalizeFsPath = (p?: string): string | undefined => {
     if (!p) return undefined;
-    const normalized = path.normalize(p);
+    const normalized = path.normalize(sfc.getComponentPath(p) ?? p);
     return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
   };
 
@@ -314,6 +1280,7 @@ export async function collectCalls(
   const confirmed: CallCandidate[] = [];
   let fuzzy: CallCandidate[] = [];
   let alreadyConvertedCount = 0;
+  let bindGroupCount = 0;
   const restrictToLexicalScope =
     isTargetFunctionNested &&
     typeof targetFunctionStart === 'number' &&
@@ -328,15 +1295,302 @@ export async function collectCalls(
 
   const localDefinitionCache = new Map<string, boolean>();
 
-  const hasConflictingLocalDefinition = (sf: SourceFile): boolean => {
-    if (!fnName) return false;
+  // Calls through a base class or interface of a method call its overrides
+  const matchesTarget = (sym: any): boolean =>
+    symbolsMatch(resolvedTarget, sym) ||
+    familySymbols.some((familySym) => symbolsMatch(familySym, sym));
+
+  // Calls may use the name of an import alias or a re-export
+  const callNames = new Set<string>(fnName ? [fnName] : []);
+  if (fnName && resolvedTarget) {
+    for (const alias of findAliasNames(files, resolvedTarget, fnName)) {
+      callNames.add(alias);
+    }
+    if (callNames.size > 1) {
+      log('target is also called as', [...callNames].slice(1));
+    }
+  }
+  const endsWithCallName = (text: string): boolean =>
+    [...callNames].some(
+      (name) =>
+        text === name ||
+        text.endsWith('.' + name) ||
+        text.endsWith('[' + name + ']')
+    );
+
+  const isAlreadyObjectArgs = (argsText: string[]): boolean =>
+    argsText.length === 1 && argsText[0].trim().startsWith('{');
+
+  // Push a call made through .call/.apply or a followed bound function
+  const pushRewrittenCall = (
+    candidate: CallCandidate,
+    isResolved: boolean,
+    spreadReason?: string
+  ): void => {
+    const argsText = candidate.argsText || [];
+    if (isAlreadyObjectArgs(argsText)) {
+      alreadyConvertedCount++;
+    } else if (argsText.length > paramNames.length) {
+      fuzzy.push({ ...candidate, reason: 'too-many-args', score: 3 });
+    } else if (spreadReason) {
+      fuzzy.push({ ...candidate, reason: spreadReason, score: 2 });
+    } else if (!isResolved) {
+      fuzzy.push({ ...candidate, reason: 'unresolved', score: 2 });
+    } else {
+      confirmed.push(candidate);
+    }
+  };
+
+  // Follow `const g = fn.bind(ctx, a)` to the calls of g. Bound args are
+  // moved into each call's object, so those calls join the bind's group.
+  // Returns false when not assigned to a variable.
+  const followBoundCalls = (
+    bindCall: any,
+    boundArgsText: string[],
+    isResolved: boolean,
+    group: number
+  ): boolean => {
+    const parent = bindCall.getParent();
+    if (
+      !parent ||
+      parent.getKind() !== SyntaxKind.VariableDeclaration ||
+      parent.getInitializer() !== bindCall ||
+      parent.getNameNode().getKind() !== SyntaxKind.Identifier
+    ) {
+      return false;
+    }
+    for (const ref of parent.getNameNode().findReferencesAsNodes()) {
+      const refCall = ref.getParent();
+      if (
+        !refCall ||
+        refCall.getKind() !== SyntaxKind.CallExpression ||
+        (refCall as any).getExpression() !== ref
+      ) {
+        continue;
+      }
+      const refFile = ref.getSourceFile().getFilePath();
+      if (refFile.indexOf(path.sep + 'node_modules' + path.sep) >= 0) {
+        continue;
+      }
+      const expanded = expandSpreadArgs(
+        (refCall as any).getArguments(),
+        paramNames.length - boundArgsText.length
+      );
+      const candidate: CallCandidate = {
+        filePath: refFile,
+        start: refCall.getStart(),
+        end: refCall.getEnd(),
+        exprText: ref.getText(),
+        argsText: [...boundArgsText, ...expanded.argsText],
+      };
+      if (boundArgsText.length) {
+        fuzzy.push({
+          ...candidate,
+          reason: 'bound-partial-args',
+          score: 2,
+          group,
+        });
+      } else {
+        pushRewrittenCall(candidate, isResolved, expanded.spreadReason);
+      }
+    }
+    return true;
+  };
+
+  const collectCallApplyBind = (
+    sf: SourceFile,
+    call: any,
+    objExpr: any,
+    propName: string
+  ): void => {
+    if (objectArgMode) {
+      fuzzy.push({
+        filePath: sf.getFilePath(),
+        start: call.getStart(),
+        end: call.getEnd(),
+        exprText: call.getExpression().getText(),
+        argsText: call.getArguments().map((a: any) => a.getText()),
+        reason: 'call-apply-bind',
+        score: 2,
+      });
+      return;
+    }
+
+    const resolvedObj = resolveNodeSymbol(objExpr);
+    if (resolvedTarget && resolvedObj && !matchesTarget(resolvedObj)) {
+      log('Skipping', propName, 'on different symbol:', call.getText());
+      return;
+    }
+    const isResolved = Boolean(resolvedTarget && resolvedObj);
+
+    const args = call.getArguments();
+    const thisArgText = args.length ? args[0].getText() : 'undefined';
+    const restArgs = args.slice(1);
+    const expanded = expandSpreadArgs(restArgs, paramNames.length);
+    const base: CallCandidate = {
+      filePath: sf.getFilePath(),
+      start: call.getStart(),
+      end: call.getEnd(),
+      exprText: call.getExpression().getText(),
+      argsText: expanded.argsText,
+      thisArgText,
+    };
+
+    if (propName === 'call') {
+      pushRewrittenCall(
+        { ...base, callForm: 'call' },
+        isResolved,
+        expanded.spreadReason
+      );
+      return;
+    }
+
+    if (propName === 'apply') {
+      const arrayArg = restArgs[0];
+      if (!arrayArg) {
+        pushRewrittenCall({ ...base, callForm: 'apply', argsText: [] }, isResolved);
+        return;
+      }
+      const isPlainArrayLiteral =
+        arrayArg.getKind() === SyntaxKind.ArrayLiteralExpression &&
+        !arrayArg
+          .getElements()
+          .some((e: any) => e.getKind() === SyntaxKind.SpreadElement);
+      if (isPlainArrayLiteral) {
+        pushRewrittenCall(
+          {
+            ...base,
+            callForm: 'apply',
+            argsText: arrayArg.getElements().map((e: any) => e.getText()),
+          },
+          isResolved
+        );
+        return;
+      }
+      // arguments or another array-like: read its elements by position
+      const arrayText = elementAccessBaseText(arrayArg);
+      fuzzy.push({
+        ...base,
+        callForm: 'apply',
+        argsText: [...paramNames.keys()].map((i) => `${arrayText}[${i}]`),
+        reason: 'apply-non-literal-args',
+        score: 2,
+      });
+      return;
+    }
+
+    // bind
+    const boundArgsText = base.argsText || [];
+    const group = ++bindGroupCount;
+    if (followBoundCalls(call, boundArgsText, isResolved, group)) {
+      if (boundArgsText.length) {
+        fuzzy.push({
+          ...base,
+          callForm: 'bind',
+          reason: 'bind-partial-args',
+          score: 2,
+          group,
+        });
+      }
+      return;
+    }
+    const parent = call.getParent();
+    const isSelfRebind =
+      !boundArgsText.length &&
+      parent &&
+      parent.getKind() === SyntaxKind.BinaryExpression &&
+      parent.getLeft().getText() === objExpr.getText();
+    if (isSelfRebind) {
+      // this.fn = this.fn.bind(this) keeps the signature; calls through
+      // the property are collected as regular calls
+      return;
+    }
+    fuzzy.push({
+      ...base,
+      exprText: objExpr.getText(),
+      callForm: 'bind-adapter',
+      reason: 'bind-unfollowed',
+      score: 2,
+    });
+  };
+
+  /**
+   * The properties of a call's object argument, with the reason and score
+   * when it needs review
+   */
+  const classifyObjectArg = (
+    args: any[]
+  ): Pick<CallCandidate, 'objectProps' | 'reason' | 'score'> => {
+    if (args.length === 0) {
+      return { objectProps: [] };
+    }
+    if (args.length > 1) {
+      return { reason: 'too-many-args', score: 3 };
+    }
+    // Each parameter reads a property of the object, so an expression
+    // would run once per parameter
+    if (args[0].getKind() !== SyntaxKind.ObjectLiteralExpression) {
+      return {
+        reason: text.isSimpleValueText(args[0].getText())
+          ? 'non-literal-object-arg'
+          : 'non-literal-object-expr',
+        score: 2,
+      };
+    }
+    const objectProps = getObjectLiteralProps(args[0]);
+    if (!objectProps) {
+      return { reason: 'unsupported-object-literal', score: 3 };
+    }
+    if (objectProps.some((p) => !paramNames.includes(p.name))) {
+      return { objectProps, reason: 'unknown-object-props', score: 3 };
+    }
+    // Positional arguments are evaluated in parameter order
+    const positions = objectProps.map((p) => paramNames.indexOf(p.name));
+    const isReordered = positions.some((pos, i) => i > 0 && pos < positions[i - 1]);
+    if (
+      isReordered &&
+      objectProps.some((p) => !text.isSimpleValueText(p.valueText))
+    ) {
+      return { objectProps, reason: 'reordered-object-props', score: 2 };
+    }
+    return { objectProps };
+  };
+
+  const pushObjectArgCandidate = (
+    sf: SourceFile,
+    call: any,
+    args: any[],
+    argsText: string[],
+    exprText: string
+  ): void => {
+    const candidate: CallCandidate = {
+      filePath: sf.getFilePath(),
+      start: call.getStart(),
+      end: call.getEnd(),
+      exprText,
+      argsText,
+      ...classifyObjectArg(args),
+    };
+    if (candidate.reason) {
+      fuzzy.push(candidate);
+    } else {
+      confirmed.push(candidate);
+    }
+  };
+
+  // Whether the file declares another function under the called name
+  const hasConflictingLocalDefinition = (
+    sf: SourceFile,
+    calledName: string
+  ): boolean => {
     const sfPath = sf.getFilePath();
     const normalizedSfPath = normalizeFsPath(sfPath);
     if (!normalizedSfPath) {
       return false;
     }
-    if (localDefinitionCache.has(normalizedSfPath)) {
-      return localDefinitionCache.get(normalizedSfPath) ?? false;
+    const cacheKey = normalizedSfPath + '#' + calledName;
+    if (localDefinitionCache.has(cacheKey)) {
+      return localDefinitionCache.get(cacheKey) ?? false;
     }
 
     const isSourceFile =
@@ -344,15 +1598,10 @@ export async function collectCalls(
 
     let conflict = false;
 
-    const filePath = sf.getFilePath?.();
-    const fileExt = filePath
-      ? path.extname(filePath).toLowerCase()
-      : undefined;
-
     try {
       const funcDecls = sf.getFunctions?.() || [];
       conflict = funcDecls.some((f: any) => {
-        if (typeof f.getName !== 'function' || f.getName() !== fnName) {
+        if (typeof f.getName !== 'function' || f.getName() !== calledName) {
           return false;
         }
         if (isSourceFile) {
@@ -371,7 +1620,7 @@ export async function collectCalls(
       if (!conflict) {
         const varDecls = sf.getVariableDeclarations?.() || [];
         conflict = varDecls.some((v: any) => {
-          if (typeof v.getName !== 'function' || v.getName() !== fnName) {
+          if (typeof v.getName !== 'function' || v.getName() !== calledName) {
             return false;
           }
           if (isSourceFile && typeof targetVariableStart === 'number') {
@@ -397,7 +1646,7 @@ export async function collectCalls(
         conflict = importDecls.some((d: any) => {
           try {
             const defaultImport = d.getDefaultImport && d.getDefaultImport();
-            if (defaultImport && defaultImport.getText() === fnName) {
+            if (defaultImport && defaultImport.getText() === calledName) {
               return true;
             }
             const namespaceImport =
@@ -405,13 +1654,14 @@ export async function collectCalls(
             if (
               namespaceImport &&
               namespaceImport.getName &&
-              namespaceImport.getName() === fnName
+              namespaceImport.getName() === calledName
             ) {
               return true;
             }
             const named = d.getNamedImports ? d.getNamedImports() : [];
             return named.some(
-              (ni: any) => ni.getName && ni.getName() === fnName
+              (ni: any) =>
+                (ni.getAliasNode()?.getText() ?? ni.getName()) === calledName
             );
           } catch (e) {
             return false;
@@ -422,17 +1672,7 @@ export async function collectCalls(
       conflict = false;
     }
 
-    if (
-      !conflict &&
-      filePath &&
-      fileExt &&
-      vueLikeExtensions.has(fileExt) &&
-      !isSourceFile
-    ) {
-      conflict = hasVueScriptDefinition(filePath, fnName);
-    }
-
-    localDefinitionCache.set(normalizedSfPath, conflict);
+    localDefinitionCache.set(cacheKey, conflict);
     return conflict;
   };
 
@@ -483,7 +1723,7 @@ export async function collectCalls(
         continue;
       }
 
-      // Check for .call(), .apply(), .bind() - these have PropertyAccessExpression
+      // .call(), .apply() and .bind() on the target are rewritten in place
       if (
         expr.getKind &&
         expr.getKind() === SyntaxKind.PropertyAccessExpression
@@ -501,70 +1741,32 @@ export async function collectCalls(
           const objText = objExpr ? objExpr.getText() : '';
 
           // Check if the object being called is our target function
-          if (objText === fnName || objText.endsWith('.' + fnName)) {
-            const conflictFile = sf.getFilePath();
-            log(`${propName}() detected in`, conflictFile, 'expr:', exprText);
-
-            try {
-              const doc = await vscode.workspace.openTextDocument(conflictFile);
-              const callStartPos = doc.positionAt(call.getStart());
-              const callEndPos = doc.positionAt(call.getEnd());
-
-              await vscode.window.showTextDocument(doc, { preview: true });
-              const tempEditor = vscode.window.activeTextEditor;
-
-              if (tempEditor) {
-                const topLine = Math.max(0, callStartPos.line - 5);
-                const topPos = new vscode.Position(topLine, 0);
-                tempEditor.revealRange(
-                  new vscode.Range(topPos, topPos),
-                  vscode.TextEditorRevealType.AtTop
-                );
-
-                const highlightDecoration =
-                  vscode.window.createTextEditorDecorationType({
-                    backgroundColor: 'rgba(255,100,100,0.3)',
-                    border: '1px solid rgba(255,100,100,0.8)',
-                  });
-                tempEditor.setDecorations(highlightDecoration, [
-                  new vscode.Range(callStartPos, callEndPos),
-                ]);
-
-                await vscode.window.showWarningMessage(
-                  `Objectify Params: Cannot convert function.\n\ncall/apply/bind methods are not supported.`,
-                  { modal: true }
-                );
-
-                highlightDecoration.dispose();
-
-                log('User notified about', propName, '- stopping conversion');
-                return { confirmed: [], fuzzy: [], shouldAbort: true };
-              }
-            } catch (e) {
-              log('error showing call/apply/bind warning:', e);
-            }
+          if (endsWithCallName(objText)) {
+            log(`${propName}() detected in`, sf.getFilePath(), 'expr:', exprText);
+            collectCallApplyBind(sf, call, objExpr, propName);
             continue;
           }
         }
       }
-
       if (!fnName) continue;
-      const looksLikeCall =
-        exprText === fnName ||
-        exprText.endsWith('.' + fnName) ||
-        exprText.endsWith('[' + fnName + ']');
+      const looksLikeCall = endsWithCallName(exprText);
       if (!looksLikeCall) continue;
 
       if (targetRequiresPropertyAccess && !isPropertyAccessExpression) {
         continue;
       }
 
-      const localConflict = hasConflictingLocalDefinition(sf);
+      const localConflict = hasConflictingLocalDefinition(
+        sf,
+        isPropertyAccessExpression ? fnName : exprText
+      );
       const isIndirectAccess = isPropertyAccessExpression;
 
       if (isIndirectAccess && !resolvedTarget) {
-        const args = call.getArguments();
-        const argsText = args.map((a: any) => (a ? a.getText() : 'undefined'));
+        const { argsText } = expandSpreadArgs(
+          call.getArguments(),
+          paramNames.length
+        );
         fuzzy.push({
           filePath: sf.getFilePath(),
           start: call.getStart(),
@@ -577,77 +1779,27 @@ export async function collectCalls(
         continue;
       }
 
-      // Check for .call, .apply, or .bind usage
-      const isCallApplyBind =
-        exprText === `${fnName}.call` ||
-        exprText === `${fnName}.apply` ||
-        exprText === `${fnName}.bind` ||
-        exprText.endsWith(`.${fnName}.call`) ||
-        exprText.endsWith(`.${fnName}.apply`) ||
-        exprText.endsWith(`.${fnName}.bind`);
-
-      if (isCallApplyBind) {
-        const conflictFile = sf.getFilePath();
-        log('call/apply/bind detected in', conflictFile);
-
-        try {
-          const doc = await vscode.workspace.openTextDocument(conflictFile);
-          const callStartPos = doc.positionAt(call.getStart());
-          const callEndPos = doc.positionAt(call.getEnd());
-
-          await vscode.window.showTextDocument(doc, { preview: true });
-          const tempEditor = vscode.window.activeTextEditor;
-
-          if (tempEditor) {
-            const topLine = Math.max(0, callStartPos.line - 5);
-            const topPos = new vscode.Position(topLine, 0);
-            tempEditor.revealRange(
-              new vscode.Range(topPos, topPos),
-              vscode.TextEditorRevealType.AtTop
-            );
-
-            const highlightDecoration =
-              vscode.window.createTextEditorDecorationType({
-                backgroundColor: 'rgba(255,100,100,0.3)',
-                border: '1px solid rgba(255,100,100,0.8)',
-              });
-            tempEditor.setDecorations(highlightDecoration, [
-              new vscode.Range(callStartPos, callEndPos),
-            ]);
-
-            const response = await vscode.window.showWarningMessage(
-              `Objectify Params: Cannot convert function.\n\ncall/apply/bind methods are not supported.`,
-              { modal: true },
-              'Cancel Scanning'
-            );
-
-            highlightDecoration.dispose();
-
-            if (response === 'Cancel Scanning') {
-              log('User cancelled scanning due to call/apply/bind');
-              return { confirmed: [], fuzzy: [], shouldAbort: true };
-            }
-          }
-        } catch (e) {
-          log('error showing call/apply/bind warning:', e);
-        }
-        continue;
-      }
-
       let calledSym;
       let resolvedCalled;
       try {
         calledSym = expr.getSymbol && expr.getSymbol();
         resolvedCalled =
           calledSym &&
-          (calledSym.getAliasedSymbol
-            ? calledSym.getAliasedSymbol?.() || calledSym
-            : calledSym);
+          resolveModuleLoadedSymbol(
+            calledSym.getAliasedSymbol
+              ? calledSym.getAliasedSymbol?.() || calledSym
+              : calledSym
+          );
       } catch (e) {
         log('Error resolving called symbol:', e);
         calledSym = null;
         resolvedCalled = null;
       }
+      if (targetIsConstructor && resolvedCalled) {
+        resolvedCalled =
+          resolveConstructorSymbol(project.getTypeChecker(), call) ||
+          resolvedCalled;
+      }
 
       if (looksLikeCall) {
 
@@ -657,42 +1809,7 @@ export async function collectCalls(
         try {
           // Only compare symbols if we have a resolved target
           if (resolvedTarget) {
-            // Compare by declaration location instead of just name
-            let isMatch = false;
-            
-            try {
-              const targetDecls = resolvedTarget.getDeclarations?.() || [];
-              const calledDecls = resolvedCalled.getDeclarations?.() || [];
-              
-              if (targetDecls.length > 0 && calledDecls.length > 0) {
-                // Check if any declaration locations match
-                for (const tDecl of targetDecls) {
-                  for (const cDecl of calledDecls) {
-                    const tFile = tDecl.getSourceFile?.()?.getFilePath?.();
-                    const cFile = cDecl.getSourceFile?.()?.getFilePath?.();
-                    const tStart = tDecl.getStart?.();
-                    const cStart = cDecl.getStart?.();
-                    
-                    if (tFile && cFile && tFile === cFile && tStart === cStart) {
-                      isMatch = true;
-                      break;
-                    }
-                  }
-                  if (isMatch) break;
-                }
-              }
-            } catch (e) {
-              // Fall back to name comparison
-              const fnId = resolvedTarget.getFullyQualifiedName
-                ? resolvedTarget.getFullyQualifiedName()
-                : resolvedTarget.getEscapedName &&
-                  resolvedTarget.getEscapedName();
-              const callId = resolvedCalled.getFullyQualifiedName
-                ? resolvedCalled.getFullyQualifiedName()
-                : resolvedCalled.getEscapedName &&
-                  resolvedCalled.getEscapedName();
-              isMatch = fnId && callId && fnId === callId;
-            }
+            const isMatch = matchesTarget(resolvedCalled);
 
             const isCollision = !isMatch;
 
@@ -709,10 +1826,23 @@ export async function collectCalls(
 
           // Process the call (symbol matched or no symbol to compare)
           const args = call.getArguments();
-          const argsText = args.map((a: any) =>
-            a ? a.getText() : 'undefined'
-          );
-          if (
+          const { argsText, spreadReason } = objectArgMode
+            ? {
+                argsText: args.map((a: any) =>
+                  a ? a.getText() : 'undefined'
+                ),
+                spreadReason: undefined,
+              }
+            : expandSpreadArgs(args, paramNames.length);
+          if (objectArgMode) {
+            pushObjectArgCandidate(
+              sf,
+              call,
+              args,
+              argsText,
+              exprTextForReplacement
+            );
+          } else if (
             argsText.length === 1 &&
             typeof argsText[0] === 'string' &&
             argsText[0].trim().startsWith('{')
@@ -726,11 +1856,11 @@ export async function collectCalls(
             alreadyConvertedCount++;
           } else {
             // Check if argument count matches parameter count
-            if (args.length > paramNames.length) {
+            if (argsText.length > paramNames.length) {
               // More args than params - would lose data, must be fuzzy
               log(
                 'too many arguments:',
-                args.length,
+                argsText.length,
                 'args vs',
                 paramNames.length,
                 'params in',
@@ -745,6 +1875,17 @@ export async function collectCalls(
                 reason: 'too-many-args',
                 score: 3,
               });
+            } else if (spreadReason) {
+              log('spread argument needs review:', spreadReason, 'in', sf.getFilePath());
+              fuzzy.push({
+                filePath: sf.getFilePath(),
+                start: call.getStart(),
+                end: call.getEnd(),
+                exprText: exprTextForReplacement,
+                argsText,
+                reason: spreadReason,
+                score: 2,
+              });
             } else {
               // args.length <= paramNames.length - safe to convert
               // Missing args will become undefined properties
@@ -754,6 +1895,7 @@ export async function collectCalls(
                 end: call.getEnd(),
                 exprText: exprTextForReplacement,
                 argsText,
+                overloadStart: getResolvedOverloadStart(project, call),
               });
             }
           }
@@ -761,7 +1903,9 @@ export async function collectCalls(
           log('Error during symbol comparison in', sf.getFilePath(), e);
 
           // Show error and abort - cannot safely parse this file
-          const doc = await vscode.workspace.openTextDocument(sf.getFilePath());
+          const doc = await vscode.workspace.openTextDocument(
+            sfc.getComponentPath(sfPath) ?? sfPath
+          );
           const callStartPos = doc.positionAt(call.getStart());
           const callEndPos = doc.positionAt(call.getEnd());
 
@@ -801,10 +1945,16 @@ export async function collectCalls(
       } else {
         // Could not resolve symbol - check argument count to decide confirmed vs fuzzy
         const args = call.getArguments();
-        const argsText = args.map((a: any) => (a ? a.getText() : 'undefined'));
+        const { argsText, spreadReason } = objectArgMode
+          ? {
+              argsText: args.map((a: any) => (a ? a.getText() : 'undefined')),
+              spreadReason: undefined,
+            }
+          : expandSpreadArgs(args, paramNames.length);
         
         // Skip if already converted to object syntax
         if (
+          !objectArgMode &&
           argsText.length === 1 &&
           typeof argsText[0] === 'string' &&
           argsText[0].trim().startsWith('{')
@@ -825,7 +1975,7 @@ export async function collectCalls(
         if (localConflict && !isPropertyAccess) {
           await dialogs.showNameCollisionDialog(
             {
-              filePath: sf.getFilePath(),
+              filePath: sfc.getComponentPath(sfPath) ?? sfPath,
               start: call.getStart(),
               end: call.getEnd(),
             },
@@ -846,7 +1996,15 @@ export async function collectCalls(
             reason: 'unresolved-property-access',
             score: 2,
           });
-        } else if (args.length > paramNames.length) {
+        } else if (objectArgMode) {
+          pushObjectArgCandidate(
+            sf,
+            call,
+            args,
+            argsText,
+            exprTextForReplacement
+          );
+        } else if (argsText.length > paramNames.length) {
           // Too many args - must be fuzzy to avoid data loss
           fuzzy.push({
             filePath: sf.getFilePath(),
@@ -857,6 +2015,16 @@ export async function collectCalls(
             reason: 'unresolved-too-many-args',
             score: 3,
           });
+        } else if (spreadReason) {
+          fuzzy.push({
+            filePath: sf.getFilePath(),
+            start: call.getStart(),
+            end: call.getEnd(),
+            exprText: exprTextForReplacement,
+            argsText,
+            reason: spreadReason,
+            score: 2,
+          });
         } else {
           // Direct call with safe arg count - safe to auto-convert
           log('CONFIRMED CALL ADDED (unresolved symbol but safe arg count):', {
@@ -879,26 +2047,59 @@ export async function collectCalls(
     }
   }
 
-  // Also search .vue and .svelte files in workspace for template calls
-  const cfg = vscode.workspace.getConfiguration('objectifyParams');
-  const excludeStr =
-    (cfg.get('5.exclude') as string) || '**/node_modules/**';
-  const excludePatterns = excludeStr.split(/\s+/).filter(Boolean);
-  const templatePatterns = ['**/*.vue', '**/*.svelte'];
-  let vueFilesRel: string[] = [];
-  for (const p of templatePatterns) {
-    try {
-      vueFilesRel = vueFilesRel.concat(
-        glob.sync(p, {
-          cwd: workspaceRoot,
-          ignore: excludePatterns,
-          nodir: true,
-        })
-      );
-    } catch (e) {}
+  // Functions passed as values are called with positional args by code we
+  // cannot rewrite; offer to wrap each one in an adapter arrow
+  if (!objectArgMode && !targetIsConstructor && resolvedTarget) {
+    for (const node of findValueReferences(resolvedTarget)) {
+      const isShorthand =
+        node.getParent().getKind() === SyntaxKind.ShorthandPropertyAssignment;
+      log('function passed as value in', node.getSourceFile().getFilePath(), ':', node.getText());
+      fuzzy.push({
+        filePath: node.getSourceFile().getFilePath(),
+        start: isShorthand ? node.getParent().getStart() : node.getStart(),
+        end: isShorthand ? node.getParent().getEnd() : node.getEnd(),
+        exprText: node.getText(),
+        argsText: [...paramNames],
+        callForm: 'value-adapter',
+        propertyNameText: isShorthand ? node.getText() : undefined,
+        adapterNeedsParens: !BARE_ARROW_PARENTS.includes(
+          node.getParent().getKind()
+        ),
+        contextText: valueReferenceContext(node),
+        reason: 'function-value',
+        score: 1,
+      });
+    }
+  }
+
+  // Calls in component script blocks belong to the component file; the
+  // virtual source file keeps the component's offsets
+  for (const c of [...confirmed, ...fuzzy]) {
+    c.filePath = sfc.getComponentPath(c.filePath) ?? c.filePath;
   }
-  vueFilesRel = Array.from(new Set(vueFilesRel));
-  const vueFiles = vueFilesRel.map((f) => path.join(workspaceRoot, f));
+
+  // Template calls are parsed on their own to read their object argument
+  const classifyTemplateObjectArg = (
+    callText: string
+  ): ReturnType<typeof classifyObjectArg> => {
+    const callFile = syntaxProject.createSourceFile(
+      'template-call.ts',
+      callText,
+      { overwrite: true }
+    );
+    try {
+      const call = callFile.getFirstDescendantByKind(SyntaxKind.CallExpression);
+      return call
+        ? classifyObjectArg(call.getArguments())
+        : { reason: 'unsupported-object-literal', score: 3 };
+    } finally {
+      syntaxProject.removeSourceFile(callFile);
+    }
+  };
+
+  // Also search .vue and .svelte files in each scanned folder for template
+  // calls, under the function's name or an alias imported by a script block
+  const vueFiles = findComponentFiles(folderRoots);
   
   // Normalize file paths for comparison and collect existing ranges
   const normalizeFilePath = (fp: string) => fp.replace(/\\/g, '/').toLowerCase();
@@ -928,70 +2129,38 @@ export async function collectCalls(
   
   for (const vf of vueFiles) {
     const txt = fs.readFileSync(vf, 'utf8');
-    const scriptRanges: Array<{ start: number; end: number }> = [];
-    const scriptTagRegex = /<script\b[^>]*>/gi;
-    let scriptMatch: RegExpExecArray | null;
-    const scriptCloseTag = '</script>';
-    while ((scriptMatch = scriptTagRegex.exec(txt)) !== null) {
-      const scriptStart = scriptMatch.index;
-      const closeIdx = txt.indexOf(scriptCloseTag, scriptTagRegex.lastIndex);
-      if (closeIdx === -1) {
-        scriptRanges.push({ start: scriptStart, end: txt.length });
-        break;
-      }
-      const rangeEnd = closeIdx + scriptCloseTag.length;
-      scriptRanges.push({ start: scriptStart, end: rangeEnd });
-      scriptTagRegex.lastIndex = rangeEnd;
-    }
-    const re = new RegExp(fnName + '\\s*\\(', 'g');
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(txt)) !== null) {
-      const idx = m.index;
-      const inScriptBlock = scriptRanges.some(
-        (range) => idx >= range.start && idx < range.end
+    const normalizedVf = normalizeFilePath(vf);
+    for (const call of sfc.findTemplateCalls(txt, sfc.isSvelteFile(vf), callNames)) {
+      const isDuplicate = existingRanges.some(
+        (r) => r.file === normalizedVf && r.start === call.start
       );
-      if (inScriptBlock) {
-        log('SKIPPING script block match at offset', idx, 'in', vf);
-        continue;
-      }
-      const contextStart = Math.max(0, idx - 50);
-      const contextEnd = Math.min(txt.length, idx + 100);
-      const context = txt.substring(contextStart, contextEnd);
-      
-      // Check if this is the function definition, not a call
-      // Look for 'function functionName(' or 'async functionName(' or method declarations
-      const beforeMatch = txt.substring(Math.max(0, idx - 20), idx);
-      const isFunctionDef = /\bfunction\s+$/.test(beforeMatch) ||
-                           /\basync\s+function\s+$/.test(beforeMatch) ||
-                           /\basync\s+$/.test(beforeMatch);
-      
-      if (isFunctionDef) {
-        log('SKIPPING function definition at offset', idx, 'in', vf);
+      if (isDuplicate) {
+        log('SKIPPING duplicate (already found by ts-morph) at offset', call.start, 'in', vf);
         continue;
       }
-      
-      // Check if overlaps with any existing range (allowing for slight offset differences)
-      const normalizedVf = normalizeFilePath(vf);
-      const isDuplicate = existingRanges.some(r => 
-        r.file === normalizedVf && 
-        Math.abs(r.start - idx) < 20 // Within 20 chars is likely the same call
-      );
-      
-      if (isDuplicate) {
-        log('SKIPPING duplicate (already found by ts-morph) at offset', idx, 'in', vf);
+      if (!objectArgMode && isAlreadyObjectArgs(call.argsText)) {
+        alreadyConvertedCount++;
         continue;
       }
-      
-      log('REGEX MATCH in', vf, 'at offset', idx, 'context:', context);
+      log('TEMPLATE CALL in', vf, 'at offset', call.start);
+      const callText = txt.slice(call.start, call.end);
+      // Markup calls are always reviewed; an object argument that needs
+      // review keeps its own reason
+      const objectArg = objectArgMode
+        ? classifyTemplateObjectArg(callText)
+        : {};
       fuzzy.push({
         filePath: vf,
-        rangeStart: idx,
-        rangeEnd: idx + fnName.length,
-        text: txt.substr(idx, 200),
-        reason: 'unresolved',
+        start: call.start,
+        end: call.end,
+        text: callText,
+        objectProps: objectArg.objectProps,
+        reason: call.isMemberCall
+          ? 'template-member-call'
+          : objectArg.reason ?? 'template-call',
         score: 5,
-        argsText: null,
-        exprText: fnName,
+        argsText: call.argsText,
+        exprText: call.exprText,
       });
     }
   }
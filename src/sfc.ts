@@ -0,0 +1,508 @@
+import * as path from 'path';
+import { Project, SourceFile, ts } from 'ts-morph';
+import * as utils from './utils';
+
+const { log } = utils.getLog('sfcs');
+
+/** Single-file component extensions */
+export const COMPONENT_EXTENSIONS = new Set(['.vue', '.svelte']);
+
+/** An expression found in the markup of a Vue or Svelte component */
+export interface TemplateExpression {
+  // offset of the expression text in the component file
+  start: number;
+  text: string;
+  // Vue event handlers can hold statements rather than one expression
+  isStatement: boolean;
+}
+
+/** Content of a `<script>` block, with offsets in the component file */
+export interface ScriptBlock {
+  start: number;
+  end: number;
+  isTypeScript: boolean;
+}
+
+interface ComponentScan {
+  expressions: TemplateExpression[];
+  scriptBlocks: ScriptBlock[];
+}
+
+/** A call found in component markup, with offsets in the component file */
+export interface TemplateCall {
+  start: number;
+  end: number;
+  // the called name, which may be an import alias of the function
+  exprText: string;
+  argsText: string[];
+  // a method of that name called on some object, e.g. `api.fmt(x)`
+  isMemberCall: boolean;
+}
+
+// Tags whose content is not markup
+const RAW_TEXT_TAGS = new Set(['script', 'style']);
+
+// Vue directives whose value is a single expression
+const VUE_EXPRESSION_DIRECTIVES = new Set([
+  'v-if',
+  'v-else-if',
+  'v-show',
+  'v-model',
+  'v-html',
+  'v-text',
+  'v-memo',
+]);
+
+const TAG_NAME_REGEX = /<([A-Za-z][\w:.-]*)/y;
+const VUE_FOR_ALIAS_REGEX = /^\s*(?:\([^)]*\)|\S+)\s+(?:in|of)\s+/;
+
+// Svelte blocks and tags that hold an expression, with the text before it
+const SVELTE_EXPRESSION_PREFIXES = [
+  /^\s*#(?:if|key|each|await)\s+/,
+  /^\s*:else\s+if\s+/,
+  /^\s*@(?:html|render)\s+/,
+  /^\s*@const\s+[^=]*=/,
+];
+
+// Text after the expression in `{#each items as item}` and `{#await p then v}`
+const SVELTE_EACH_SUFFIX = /\s+as\b[\s\S]*$/;
+const SVELTE_AWAIT_SUFFIX = /\s+(?:then|catch)\b[\s\S]*$/;
+
+/** Index of the quote closing the string that opens at quoteIndex */
+function skipString(text: string, quoteIndex: number): number {
+  const quote = text[quoteIndex];
+  for (let i = quoteIndex + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === quote) return i;
+  }
+  return text.length;
+}
+
+/** Index of the brace closing the one at openIndex, skipping strings */
+function findClosingBrace(text: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(text, i);
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Index of the quote ending an attribute value. Svelte expressions in the
+ * value may contain the same quote.
+ */
+function findClosingQuote(
+  text: string,
+  valueStart: number,
+  quote: string,
+  isSvelte: boolean
+): number {
+  for (let i = valueStart; i < text.length; i++) {
+    if (text[i] === quote) return i;
+    if (isSvelte && text[i] === '{') {
+      i = findClosingBrace(text, i);
+      if (i < 0) return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Index of the `}}` closing a Vue mustache whose expression starts at
+ * start. Braces of object literals and strings inside it are skipped.
+ */
+function findMustacheEnd(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(text, i);
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      if (depth === 0 && text[i + 1] === '}') return i;
+      depth = Math.max(0, depth - 1);
+    }
+  }
+  return -1;
+}
+
+function skipWhitespace(text: string, pos: number): number {
+  while (pos < text.length && /\s/.test(text[pos])) pos++;
+  return pos;
+}
+
+function pushExpression(
+  expressions: TemplateExpression[],
+  text: string,
+  start: number,
+  end: number,
+  isStatement = false
+): void {
+  const exprText = text.slice(start, end);
+  if (exprText.trim()) {
+    expressions.push({ start, text: exprText, isStatement });
+  }
+}
+
+function pushVueAttribute(
+  expressions: TemplateExpression[],
+  attrName: string,
+  text: string,
+  start: number,
+  end: number
+): void {
+  if (attrName.startsWith('@') || attrName.startsWith('v-on:')) {
+    pushExpression(expressions, text, start, end, true);
+    return;
+  }
+  const directive = attrName.split(/[.:]/)[0];
+  if (directive === 'v-for') {
+    const alias = VUE_FOR_ALIAS_REGEX.exec(text.slice(start, end));
+    if (alias) {
+      pushExpression(expressions, text, start + alias[0].length, end);
+    }
+  } else if (
+    attrName.startsWith(':') ||
+    directive === 'v-bind' ||
+    VUE_EXPRESSION_DIRECTIVES.has(directive)
+  ) {
+    pushExpression(expressions, text, start, end);
+  }
+}
+
+/** Svelte `{...}` expressions in an attribute value */
+function pushSvelteAttribute(
+  expressions: TemplateExpression[],
+  text: string,
+  start: number,
+  end: number
+): void {
+  for (let i = start; i < end; i++) {
+    if (text[i] !== '{') continue;
+    const close = findClosingBrace(text, i);
+    if (close < 0 || close >= end) return;
+    pushExpression(expressions, text, i + 1, close);
+    i = close;
+  }
+}
+
+/** Svelte `{...}` in text: a plain expression or a block or tag */
+function scanSvelteTag(
+  expressions: TemplateExpression[],
+  text: string,
+  openIndex: number
+): number {
+  const close = findClosingBrace(text, openIndex);
+  if (close < 0) return text.length;
+  const inner = text.slice(openIndex + 1, close);
+  let start = openIndex + 1;
+  let end = close;
+  if (/^\s*[#:/@]/.test(inner)) {
+    const prefix = SVELTE_EXPRESSION_PREFIXES.map((re) => re.exec(inner)).find(
+      Boolean
+    );
+    if (!prefix) return close + 1;
+    start += prefix[0].length;
+    const suffixRegex = /^\s*#each/.test(inner)
+      ? SVELTE_EACH_SUFFIX
+      : /^\s*#await/.test(inner)
+        ? SVELTE_AWAIT_SUFFIX
+        : null;
+    const suffix = suffixRegex?.exec(text.slice(start, end));
+    if (suffix) end -= suffix[0].length;
+  }
+  pushExpression(expressions, text, start, end);
+  return close + 1;
+}
+
+/** Scan an opening tag's attributes. Returns the offset after the tag. */
+function scanTag(
+  scan: ComponentScan,
+  text: string,
+  openIndex: number,
+  isSvelte: boolean
+): number {
+  TAG_NAME_REGEX.lastIndex = openIndex;
+  const tagName = TAG_NAME_REGEX.exec(text)![1];
+  let pos = openIndex + 1 + tagName.length;
+  let isSelfClosing = false;
+  const attributes = new Map<string, string>();
+  while (pos < text.length) {
+    pos = skipWhitespace(text, pos);
+    if (text[pos] === '>') {
+      pos++;
+      break;
+    }
+    if (text.startsWith('/>', pos)) {
+      pos += 2;
+      isSelfClosing = true;
+      break;
+    }
+    if (isSvelte && text[pos] === '{') {
+      // {shorthand} and {...spread} attributes
+      const close = findClosingBrace(text, pos);
+      if (close < 0) return text.length;
+      const spread = /^\s*\.\.\./.exec(text.slice(pos + 1, close));
+      const exprStart = pos + 1 + (spread ? spread[0].length : 0);
+      pushExpression(scan.expressions, text, exprStart, close);
+      pos = close + 1;
+      continue;
+    }
+    const nameStart = pos;
+    while (
+      pos < text.length &&
+      !/[\s=>]/.test(text[pos]) &&
+      !text.startsWith('/>', pos)
+    ) {
+      pos++;
+    }
+    const attrName = text.slice(nameStart, pos);
+    if (!attrName) {
+      pos++;
+      continue;
+    }
+    pos = skipWhitespace(text, pos);
+    if (text[pos] !== '=') continue;
+    pos = skipWhitespace(text, pos + 1);
+    const quote = text[pos];
+    let valueStart = pos;
+    let valueEnd: number;
+    if (quote === '"' || quote === "'") {
+      valueStart = pos + 1;
+      valueEnd = findClosingQuote(text, valueStart, quote, isSvelte);
+      if (valueEnd < 0) return text.length;
+      pos = valueEnd + 1;
+    } else if (isSvelte && quote === '{') {
+      const close = findClosingBrace(text, pos);
+      if (close < 0) return text.length;
+      valueEnd = pos = close + 1;
+    } else {
+      while (pos < text.length && !/[\s>]/.test(text[pos])) pos++;
+      valueEnd = pos;
+    }
+    attributes.set(attrName.toLowerCase(), text.slice(valueStart, valueEnd));
+    if (isSvelte) {
+      pushSvelteAttribute(scan.expressions, text, valueStart, valueEnd);
+    } else {
+      pushVueAttribute(scan.expressions, attrName, text, valueStart, valueEnd);
+    }
+  }
+  if (RAW_TEXT_TAGS.has(tagName.toLowerCase()) && !isSelfClosing) {
+    const close = text.toLowerCase().indexOf('</' + tagName.toLowerCase(), pos);
+    const end = close < 0 ? text.length : close;
+    if (tagName.toLowerCase() === 'script') {
+      scan.scriptBlocks.push({
+        start: pos,
+        end,
+        isTypeScript: /^tsx?$/i.test(attributes.get('lang') ?? ''),
+      });
+    }
+    return end;
+  }
+  return pos;
+}
+
+function scanComponent(fileText: string, isSvelte: boolean): ComponentScan {
+  const scan: ComponentScan = { expressions: [], scriptBlocks: [] };
+  const { expressions } = scan;
+  let i = 0;
+  while (i < fileText.length) {
+    if (fileText.startsWith('<!--', i)) {
+      const close = fileText.indexOf('-->', i + 4);
+      i = close < 0 ? fileText.length : close + 3;
+    } else if (fileText[i] === '<' && /[A-Za-z]/.test(fileText[i + 1] ?? '')) {
+      i = scanTag(scan, fileText, i, isSvelte);
+    } else if (isSvelte && fileText[i] === '{') {
+      i = scanSvelteTag(expressions, fileText, i);
+    } else if (!isSvelte && fileText.startsWith('{{', i)) {
+      const close = findMustacheEnd(fileText, i + 2);
+      if (close < 0) break;
+      pushExpression(expressions, fileText, i + 2, close);
+      i = close + 2;
+    } else {
+      i++;
+    }
+  }
+  return scan;
+}
+
+/**
+ * Expressions in the markup of a .vue or .svelte file: Vue mustaches and
+ * directive values, and Svelte `{...}` expressions, blocks and attributes.
+ * Script and style blocks and HTML comments are skipped.
+ */
+export function getTemplateExpressions(
+  fileText: string,
+  isSvelte: boolean
+): TemplateExpression[] {
+  return scanComponent(fileText, isSvelte).expressions;
+}
+
+/**
+ * The `<script>` blocks of a component, including `<script setup>` and
+ * Svelte's `<script context="module">`
+ */
+export function getScriptBlocks(
+  fileText: string,
+  isSvelte: boolean
+): ScriptBlock[] {
+  return scanComponent(fileText, isSvelte).scriptBlocks;
+}
+
+/**
+ * Calls of any of callNames in component markup. Each expression is parsed
+ * as TypeScript, so only real calls of those identifiers are returned,
+ * along with calls of methods that have one of those names.
+ */
+export function findTemplateCalls(
+  fileText: string,
+  isSvelte: boolean,
+  callNames: ReadonlySet<string>
+): TemplateCall[] {
+  const calls: TemplateCall[] = [];
+  for (const expr of getTemplateExpressions(fileText, isSvelte)) {
+    if (![...callNames].some((name) => expr.text.includes(name))) continue;
+    // Wrap expressions in parens so object literals aren't read as blocks
+    const code = expr.isStatement ? expr.text : `(${expr.text})`;
+    const offset = expr.isStatement ? expr.start : expr.start - 1;
+    const sf = ts.createSourceFile(
+      'template.ts',
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.TS
+    );
+    const visit = (node: ts.Node): void => {
+      const callee = ts.isCallExpression(node) ? node.expression : undefined;
+      const isMemberCall = !!callee && ts.isPropertyAccessExpression(callee);
+      const calledName =
+        callee && ts.isPropertyAccessExpression(callee) ? callee.name : callee;
+      if (
+        ts.isCallExpression(node) &&
+        calledName &&
+        ts.isIdentifier(calledName) &&
+        callNames.has(calledName.text)
+      ) {
+        if (node.arguments.some(ts.isSpreadElement)) {
+          log('skipping template call with spread arguments:', node.getText(sf));
+        } else {
+          calls.push({
+            start: offset + node.getStart(sf),
+            end: offset + node.getEnd(),
+            exprText: node.expression.getText(sf),
+            argsText: node.arguments.map((a) => a.getText(sf)),
+            isMemberCall,
+          });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sf);
+  }
+  return calls;
+}
+
+export function isComponentFile(filePath: string): boolean {
+  return COMPONENT_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+export function isSvelteFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.svelte';
+}
+
+/**
+ * Path of the virtual source file holding a component's scripts, e.g.
+ * App.vue.ts. Imports of './App.vue' resolve to it.
+ */
+export function getScriptSourcePath(
+  componentPath: string,
+  isTypeScript: boolean
+): string {
+  return componentPath + (isTypeScript ? '.ts' : '.js');
+}
+
+/** The component file of a virtual script source file, else null */
+export function getComponentPath(sourceFilePath: string): string | null {
+  const match = /^(.*\.(?:vue|svelte))\.[jt]s$/i.exec(sourceFilePath);
+  return match ? match[1] : null;
+}
+
+/**
+ * The project's source file for a path. For a component this is the
+ * virtual source file of its scripts, whose offsets match the component.
+ */
+export function getSourceFile(
+  project: Project,
+  filePath: string
+): SourceFile | undefined {
+  if (!isComponentFile(filePath)) {
+    return project.getSourceFile(filePath);
+  }
+  return (
+    project.getSourceFile(getScriptSourcePath(filePath, true)) ??
+    project.getSourceFile(getScriptSourcePath(filePath, false))
+  );
+}
+
+/**
+ * The component text with everything outside its script blocks blanked,
+ * so offsets in the virtual source file are offsets in the component
+ */
+export function getScriptSourceText(
+  fileText: string,
+  blocks: ScriptBlock[]
+): string {
+  const blank = (from: number, to: number): string =>
+    fileText.slice(from, to).replace(/[^\r\n]/g, ' ');
+  let result = '';
+  let pos = 0;
+  for (const block of blocks) {
+    result += blank(pos, block.start) + fileText.slice(block.start, block.end);
+    pos = block.end;
+  }
+  return result + blank(pos, fileText.length);
+}
+
+/**
+ * Add, update or remove the virtual source file of a component's scripts.
+ * fileText is null when the component was deleted.
+ */
+export function syncScriptSourceFile(
+  project: Project,
+  componentPath: string,
+  fileText: string | null
+): SourceFile | null {
+  const blocks =
+    fileText === null
+      ? []
+      : getScriptBlocks(fileText, isSvelteFile(componentPath));
+  const isTypeScript = blocks.some((b) => b.isTypeScript);
+  const scriptPath = getScriptSourcePath(componentPath, isTypeScript);
+  // A change of script language moves the virtual file
+  for (const isTs of [true, false]) {
+    const existing = project.getSourceFile(
+      getScriptSourcePath(componentPath, isTs)
+    );
+    if (existing && (!blocks.length || isTs !== isTypeScript)) {
+      project.removeSourceFile(existing);
+    }
+  }
+  if (fileText === null || !blocks.length) {
+    return null;
+  }
+  const scriptText = getScriptSourceText(fileText, blocks);
+  const existing = project.getSourceFile(scriptPath);
+  if (existing && existing.getFullText() === scriptText) {
+    return existing;
+  }
+  log('loading script blocks of', componentPath);
+  return project.createSourceFile(scriptPath, scriptText, { overwrite: true });
+}
@@ -6,6 +6,11 @@ const { log } = utils.getLog('text');
 export interface TransformFunctionOptions {
   objectVariableName?: string;
   preserveTypes?: boolean;
+  destructuredParamsText?: string;
+  /** Parameters kept positional, placed ahead of the object parameter */
+  positionalParamsText?: string;
+  /** Default the object parameter to `{}` (all of its properties are optional) */
+  optionalObject?: boolean;
 }
 
 export interface TransformFunctionResult {
@@ -47,7 +52,10 @@ export function transformFunctionText(
   // Build destructured params with defaults preserved
   // For rest parameters, use the extracted paramNames, not the original param names
   let paramsWithDefaults: string;
-  if (isRestParameter) {
+  if (options?.destructuredParamsText) {
+    // Caller already built the list (e.g. merged overload properties)
+    paramsWithDefaults = options.destructuredParamsText;
+  } else if (isRestParameter) {
     // Rest parameters don't have defaults, just use the tuple element names
     paramsWithDefaults = paramNames.join(', ');
   } else {
@@ -81,6 +89,12 @@ export function transformFunctionText(
       ? `{ ${paramsWithDefaults} }: ${resolvedTypeText}`
       : `{ ${paramsWithDefaults} }`;
   }
+  if (options?.optionalObject) {
+    newParams += ' = {}';
+  }
+  if (options?.positionalParamsText) {
+    newParams = `${options.positionalParamsText}, ${newParams}`;
+  }
 
   const newFn = before + newParams + after;
   return {
@@ -89,6 +103,294 @@ export function transformFunctionText(
   };
 }
 
+/**
+ * Expand a name template: `${fnName}` is the function name and `${FnName}`
+ * the same name capitalized
+ */
+export function expandNameTemplate(template: string, fnName: string): string {
+  return template
+    .replace(/\$\{fnName\}/g, fnName)
+    .replace(
+      /\$\{FnName\}/g,
+      fnName.charAt(0).toUpperCase() + fnName.slice(1)
+    );
+}
+
+/** `/** text *\/` comment for a type member, shown in hovers */
+export function formatDocComment(description: string): string {
+  return `/** ${description.replace(/\*\//g, '*\\/')} */`;
+}
+
+/**
+ * Declaration of a named object parameter type, one member per line
+ * under its description. Lines after the first are prefixed with indent.
+ */
+export function buildTypeDeclarationText(
+  name: string,
+  members: Array<{
+    name: string;
+    typeText: string;
+    isOptional: boolean;
+    description?: string;
+  }>,
+  kind: 'interface' | 'type',
+  isExported: boolean,
+  eol: string,
+  indent: string
+): string {
+  const head =
+    (isExported ? 'export ' : '') +
+    (kind === 'interface' ? `interface ${name} {` : `type ${name} = {`);
+  const lines = members.flatMap((m) => [
+    ...(m.description ? [`${indent}  ${formatDocComment(m.description)}`] : []),
+    `${indent}  ${m.name}${m.isOptional ? '?' : ''}: ${m.typeText};`,
+  ]);
+  return [head, ...lines, indent + (kind === 'interface' ? '}' : '};')].join(
+    eol
+  );
+}
+
+interface JsDocParamTag {
+  /** Text before `@param`, e.g. ` * ` */
+  prefix: string;
+  typeText: string | null;
+  name: string;
+  defaultText: string | null;
+  isBracketed: boolean;
+  /** Everything after the name, usually the description */
+  rest: string;
+}
+
+/** Index just past the bracket closing the one at start */
+function scanBalanced(
+  text: string,
+  start: number,
+  open: string,
+  close: string
+): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === open) depth++;
+    else if (text[i] === close && --depth === 0) return i + 1;
+  }
+  return -1;
+}
+
+function parseJsDocParamLine(line: string): JsDocParamTag | null {
+  const match = line.match(/^(\s*\*?\s*)@param\b/);
+  if (!match) {
+    return null;
+  }
+  const prefix = match[1];
+  let i = match[0].length;
+  const skipSpaces = (): void => {
+    while (i < line.length && /\s/.test(line[i])) i++;
+  };
+  skipSpaces();
+  let typeText: string | null = null;
+  if (line[i] === '{') {
+    const end = scanBalanced(line, i, '{', '}');
+    if (end < 0) return null;
+    typeText = line.slice(i + 1, end - 1).trim();
+    i = end;
+    skipSpaces();
+  }
+  let nameSpec: string;
+  const isBracketed = line[i] === '[';
+  if (isBracketed) {
+    const end = scanBalanced(line, i, '[', ']');
+    if (end < 0) return null;
+    nameSpec = line.slice(i + 1, end - 1).trim();
+    i = end;
+  } else {
+    const nameMatch = line.slice(i).match(/^\S+/);
+    if (!nameMatch) return null;
+    nameSpec = nameMatch[0];
+    i += nameSpec.length;
+  }
+  const eq = nameSpec.indexOf('=');
+  return {
+    prefix,
+    typeText,
+    name: (eq >= 0 ? nameSpec.slice(0, eq) : nameSpec).trim(),
+    defaultText: eq >= 0 ? nameSpec.slice(eq + 1).trim() : null,
+    isBracketed,
+    rest: line.slice(i),
+  };
+}
+
+function formatJsDocParamTag(tag: JsDocParamTag): string {
+  const nameSpec = tag.isBracketed
+    ? `[${tag.name}${tag.defaultText ? `=${tag.defaultText}` : ''}]`
+    : tag.name;
+  return `${tag.prefix}@param ${
+    tag.typeText !== null ? `{${tag.typeText}} ` : ''
+  }${nameSpec}${tag.rest}`;
+}
+
+interface JsDocParamBlock {
+  tag: JsDocParamTag;
+  lines: string[];
+}
+
+/**
+ * Split JSDoc lines into `@param` tags, each owning the description lines
+ * that follow it, and the other lines. firstParamIndex is where the tags
+ * were among the other lines, or -1.
+ */
+function splitJsDocParamBlocks(lines: string[]): {
+  blocks: JsDocParamBlock[];
+  otherLines: string[];
+  firstParamIndex: number;
+} {
+  const blocks: JsDocParamBlock[] = [];
+  const otherLines: string[] = [];
+  let firstParamIndex = -1;
+  let current: JsDocParamBlock | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const tag = parseJsDocParamLine(line);
+    if (tag) {
+      if (firstParamIndex < 0) firstParamIndex = otherLines.length;
+      current = { tag, lines: [] };
+      blocks.push(current);
+    } else if (
+      current &&
+      i < lines.length - 1 &&
+      !/^\s*\*?\s*@/.test(line)
+    ) {
+      current.lines.push(line);
+    } else {
+      current = null;
+      otherLines.push(line);
+    }
+  }
+  return { blocks, otherLines, firstParamIndex };
+}
+
+export interface JsDocObjectParam {
+  name: string;
+  /** Default from the signature, used when the tag has none */
+  defaultText: string | null;
+  isOptional: boolean;
+}
+
+/**
+ * Rewrite the `@param` tags of a JSDoc block for an object parameter:
+ * an `@param {Object} objectName` entry followed by `objectName.name`
+ * entries keeping each tag's type, description and default. Tags of
+ * positional parameters stay ahead of the object. Returns null when the
+ * block has no tag for a parameter moved into the object.
+ */
+export function rewriteJsDocParamTags(
+  docText: string,
+  objectName: string,
+  objectParams: JsDocObjectParam[],
+  positionalNames: string[] = [],
+  isObjectOptional = false
+): string | null {
+  const eol = detectEol(docText);
+  const lines = docText.split(/\r?\n/);
+  // The closing `*/` must be on a line of its own
+  if (lines.length < 2 || lines[lines.length - 1].trim() !== '*/') {
+    return null;
+  }
+
+  const { blocks, otherLines, firstParamIndex } = splitJsDocParamBlocks(lines);
+
+  const rootName = (tag: JsDocParamTag): string => tag.name.split('.')[0];
+  const objectNames = new Set(objectParams.map((p) => p.name));
+  if (!blocks.some((b) => objectNames.has(rootName(b.tag)))) {
+    return null;
+  }
+  const blocksOf = (name: string) =>
+    blocks.filter((b) => rootName(b.tag) === name);
+  const render = (b: JsDocParamBlock): string[] => [
+    formatJsDocParamTag(b.tag),
+    ...b.lines,
+  ];
+  const prefix = blocks[0].tag.prefix;
+
+  const group: string[] = [];
+  for (const name of positionalNames) {
+    blocksOf(name).forEach((b) => group.push(...render(b)));
+  }
+  group.push(
+    `${prefix}@param {Object} ${
+      isObjectOptional ? `[${objectName}]` : objectName
+    }`
+  );
+  for (const param of objectParams) {
+    const own = blocksOf(param.name);
+    if (!own.length) {
+      group.push(
+        formatJsDocParamTag({
+          prefix,
+          typeText: null,
+          name: `${objectName}.${param.name}`,
+          defaultText: param.defaultText,
+          isBracketed: param.isOptional,
+          rest: '',
+        })
+      );
+    }
+    for (const b of own) {
+      const isParamTag = b.tag.name === param.name;
+      group.push(
+        ...render({
+          tag: {
+            ...b.tag,
+            name: `${objectName}.${b.tag.name}`,
+            defaultText:
+              b.tag.defaultText ?? (isParamTag ? param.defaultText : null),
+            isBracketed: b.tag.isBracketed || (isParamTag && param.isOptional),
+          },
+          lines: b.lines,
+        })
+      );
+    }
+  }
+  // Tags for names the function doesn't have are kept as they were
+  const known = new Set([...positionalNames, ...objectNames]);
+  blocks
+    .filter((b) => !known.has(rootName(b.tag)))
+    .forEach((b) => group.push(...render(b)));
+
+  otherLines.splice(firstParamIndex, 0, ...group);
+  return otherLines.join(eol);
+}
+
+/**
+ * Drop the `@param` tags (and their description lines) of the named
+ * parameters from a JSDoc block. Returns an empty string when nothing but
+ * blank lines would be left, or null when the block has no such tag.
+ */
+export function removeJsDocParamTags(
+  docText: string,
+  names: string[]
+): string | null {
+  const eol = detectEol(docText);
+  const lines = docText.split(/\r?\n/);
+  if (lines.length < 2 || lines[lines.length - 1].trim() !== '*/') {
+    return null;
+  }
+  const { blocks, otherLines, firstParamIndex } = splitJsDocParamBlocks(lines);
+  const removed = new Set(names);
+  const kept = blocks.filter((b) => !removed.has(b.tag.name.split('.')[0]));
+  if (kept.length === blocks.length) {
+    return null;
+  }
+  otherLines.splice(
+    firstParamIndex,
+    0,
+    ...kept.flatMap((b) => [formatJsDocParamTag(b.tag), ...b.lines])
+  );
+  const hasContent = otherLines
+    .slice(0, -1)
+    .some((line) => line.replace(/^\s*\/?\*+/, '').trim());
+  return hasContent ? otherLines.join(eol) : '';
+}
+
 function detectEol(text: string): string {
   return text.includes('\r\n') ? '\r\n' : '\n';
 }
@@ -112,12 +414,30 @@ function getIndentForNextContent(text: string): string {
 export function insertObjectVariableDestructureLine(
   fnText: string,
   destructuredParams: string,
-  objectVariableName: string
+  objectVariableName: string,
+  lineIndent = ''
 ): string {
   if (!destructuredParams.trim() || !objectVariableName.trim()) {
     return fnText;
   }
+  return insertFirstBodyLine(
+    fnText,
+    `let { ${destructuredParams} } = ${objectVariableName};`,
+    lineIndent
+  );
+}
 
+/**
+ * Insert a statement as the first line in the function body,
+ * matching the indentation of the existing body. A one-line body is split
+ * into lines indented one level deeper than lineIndent, the indentation
+ * of the line the function starts on.
+ */
+export function insertFirstBodyLine(
+  fnText: string,
+  statement: string,
+  lineIndent = ''
+): string {
   const openParenIndex = fnText.indexOf('(');
   let braceIndex = -1;
   if (openParenIndex >= 0) {
@@ -155,16 +475,48 @@ export function insertObjectVariableDestructureLine(
     const beforeNextLine = afterBody.slice(0, newlineIndex + 1);
     const rest = afterBody.slice(newlineIndex + 1);
     const indent = getIndentForNextContent(rest);
-    const destructureLine = `${indent}let { ${destructuredParams} } = ${objectVariableName};${eol}`;
-    return `${beforeBody}${beforeNextLine}${destructureLine}${rest}`;
+    const statementLine = `${indent}${statement}${eol}`;
+    return `${beforeBody}${beforeNextLine}${statementLine}${rest}`;
   }
 
-  const indentMatch = afterBody.match(/^(\s*)/);
+  // The brace may be on a later line of a multi-line parameter list
+  const braceLineStart = fnText.lastIndexOf('\n', braceIndex) + 1;
+  const outerIndent =
+    braceLineStart > 0
+      ? getIndentForNextContent(fnText.slice(braceLineStart))
+      : lineIndent;
+  const usesTabs = lineIndent.startsWith('\t') || /^\t/m.test(fnText);
+  const indent = outerIndent + (usesTabs ? '\t' : '  ');
+  const closeIndex = afterBody.lastIndexOf('}');
+  const body = afterBody.slice(0, closeIndex < 0 ? undefined : closeIndex).trim();
+  const closing = closeIndex < 0 ? '' : afterBody.slice(closeIndex);
+  const bodyLine = body ? `${eol}${indent}${body}` : '';
+  return `${beforeBody}${eol}${indent}${statement}${bodyLine}${eol}${outerIndent}${closing}`;
+}
+
+/**
+ * Insert a statement on the line after an existing statement of the body,
+ * e.g. after the super() call. Falls back to the first body line.
+ */
+export function insertLineAfterStatement(
+  fnText: string,
+  statementText: string,
+  statement: string
+): string {
+  const idx = fnText.indexOf(statementText);
+  if (idx < 0) {
+    return insertFirstBodyLine(fnText, statement);
+  }
+  const lineStart = fnText.lastIndexOf('\n', idx - 1) + 1;
+  const indentMatch = fnText.slice(lineStart, idx).match(/^(\s*)$/);
   const indent = indentMatch ? indentMatch[1] : '';
-  const rest = afterBody.slice(indent.length);
-  const destructureLine = `${eol}${indent}let { ${destructuredParams} } = ${objectVariableName};${eol}`;
-  const rebuilt = `${beforeBody}${destructureLine}${indent}${rest}`;
-  return rebuilt;
+  const insertAt = idx + statementText.length;
+  const eol = detectEol(fnText);
+  return (
+    fnText.slice(0, insertAt) +
+    `${eol}${indent}${statement}` +
+    fnText.slice(insertAt)
+  );
 }
 
 /**
@@ -188,11 +540,70 @@ export function buildCallReplacement(
   exprText: string,
   argsTextArr: string[] | null,
   paramNames: string[],
-  optionalParamFlags: boolean[] = []
+  optionalParamFlags: boolean[] = [],
+  positionalIndices: number[] = []
+): string {
+  return `${exprText}(${buildArgListText(
+    argsTextArr,
+    paramNames,
+    optionalParamFlags,
+    positionalIndices
+  )})`;
+}
+
+/**
+ * Build the argument list of a converted call: the args of parameters kept
+ * positional, in order, followed by the object of the rest, e.g.
+ * `url, { method:"GET" }`. The object is left out when it would be empty
+ * and every parameter in it is optional.
+ */
+export function buildArgListText(
+  argsTextArr: string[] | null,
+  paramNames: string[],
+  optionalParamFlags: boolean[] = [],
+  positionalIndices: number[] = []
+): string {
+  const objectArg = buildObjectArgText(
+    argsTextArr,
+    paramNames,
+    optionalParamFlags,
+    positionalIndices
+  );
+  if (!positionalIndices.length) {
+    return objectArg;
+  }
+  const positionalArgs = positionalIndices.map((i) =>
+    argsTextArr && argsTextArr.length > i ? argsTextArr[i] : 'undefined'
+  );
+  const objectCanBeOmitted = paramNames.every(
+    (name, i) =>
+      positionalIndices.includes(i) ||
+      (optionalParamFlags[i] === true &&
+        (!argsTextArr ||
+          argsTextArr.length <= i ||
+          isUndefinedLiteral(argsTextArr[i])))
+  );
+  return objectCanBeOmitted
+    ? positionalArgs.join(', ')
+    : [...positionalArgs, objectArg].join(', ');
+}
+
+/**
+ * Build the `{ name:value, ... }` object literal that replaces positional
+ * args, leaving out the parameters kept positional
+ */
+export function buildObjectArgText(
+  argsTextArr: string[] | null,
+  paramNames: string[],
+  optionalParamFlags: boolean[] = [],
+  positionalIndices: number[] = []
 ): string {
   const props: string[] = [];
 
   for (let i = 0; i < paramNames.length; i++) {
+    if (positionalIndices.includes(i)) {
+      continue;
+    }
     const name = paramNames[i];
     const argText = argsTextArr && argsTextArr.length > i ? argsTextArr[i] : undefined;
     const argMissing = typeof argText === 'undefined';
@@ -212,50 +623,383 @@ export function buildCallReplacement(
     }
   }
 
-  return `${exprText}({ ${props.join(', ')} })`;
+  return `{ ${props.join(', ')} }`;
+}
+
+export interface ReplacementCandidate {
+  exprText: string;
+  argsText: string[] | null;
+  callForm?:
+    | 'call'
+    | 'apply'
+    | 'bind'
+    | 'bind-adapter'
+    | 'value-adapter'
+    | 'declaration';
+  thisArgText?: string;
+  propertyNameText?: string;
+  adapterNeedsParens?: boolean;
+  /** Typed parameters of an adapter arrow, one per parameter name */
+  adapterParamsText?: string[];
+  declarationText?: string;
 }
 
 /**
- * Build replacement text for a template call (Vue/Svelte) using string manipulation
- * Returns the replacement text and the range to replace
+ * Build replacement text for a collected call, honoring how the function
+ * is invoked:
+ * - fn.call(ctx, a, b)     -> fn.call(ctx, { a, b })
+ * - fn.apply(ctx, [a, b])  -> fn.apply(ctx, [{ a, b }])
+ * - fn.bind(ctx, a)        -> fn.bind(ctx) (bound args move to the calls)
+ * - bind-adapter           -> (b) => fn.call(ctx, { a:1, b }), with bound
+ *   values other than literals evaluated once:
+ *   ((a) => (b) => fn.call(ctx, { a, b }))(x)
+ * - value-adapter          -> (a, b) => fn({ a, b })
+ * - declaration            -> the converted parameter list of an override
  */
-export function buildTemplateCallReplacement(
-  fullText: string,
-  rangeStart: number,
+export function buildCandidateReplacement(
+  candidate: ReplacementCandidate,
   paramNames: string[],
-  optionalParamFlags: boolean[] = []
-): { replacement: string; start: number; end: number } | null {
-  const after = fullText.slice(rangeStart);
-  const parenIndex = after.indexOf('(');
-  const closeIndex = after.indexOf(')');
-  
-  if (parenIndex < 0 || closeIndex <= parenIndex) {
-    return null;
+  optionalParamFlags: boolean[] = [],
+  positionalIndices: number[] = []
+): string {
+  const thisArg = candidate.thisArgText || 'undefined';
+  const adapterParams = candidate.adapterParamsText ?? paramNames;
+  const argList = (argsTextArr: string[] | null) =>
+    buildArgListText(
+      argsTextArr,
+      paramNames,
+      optionalParamFlags,
+      positionalIndices
+    );
+  switch (candidate.callForm) {
+    case 'call':
+      return `${candidate.exprText}(${thisArg}, ${argList(candidate.argsText)})`;
+    case 'apply':
+      return `${candidate.exprText}(${thisArg}, [${argList(candidate.argsText)}])`;
+    case 'bind':
+      return `${candidate.exprText}(${thisArg})`;
+    case 'bind-adapter': {
+      const boundArgs = candidate.argsText || [];
+      const restNames = paramNames.slice(boundArgs.length);
+      // .bind() evaluates its arguments once, so the adapter captures them
+      const captured: { name: string; valueText: string }[] = [];
+      const capture = (name: string, valueText: string): string => {
+        if (isLiteralText(valueText)) return valueText;
+        captured.push({ name, valueText });
+        return name;
+      };
+      const thisValue = capture('boundThis', thisArg);
+      const args = [
+        ...boundArgs.map((a, i) => capture(paramNames[i], a)),
+        ...restNames,
+      ];
+      const adapter = `(${adapterParams.slice(boundArgs.length).join(', ')}) => ${candidate.exprText}.call(${thisValue}, ${argList(args)})`;
+      return captured.length
+        ? `((${captured.map((c) => c.name).join(', ')}) => ${adapter})(${captured
+            .map((c) => c.valueText)
+            .join(', ')})`
+        : adapter;
+    }
+    case 'declaration':
+      return candidate.declarationText ?? '';
+    case 'value-adapter': {
+      const adapter = `(${adapterParams.join(', ')}) => ${buildCallReplacement(
+        candidate.exprText,
+        paramNames,
+        paramNames,
+        optionalParamFlags,
+        positionalIndices
+      )}`;
+      const wrapped = candidate.adapterNeedsParens ? `(${adapter})` : adapter;
+      return candidate.propertyNameText
+        ? `${candidate.propertyNameText}: ${wrapped}`
+        : wrapped;
+    }
+    default:
+      return buildCallReplacement(
+        candidate.exprText,
+        candidate.argsText,
+        paramNames,
+        optionalParamFlags,
+        positionalIndices
+      );
   }
-  
-  const argsText = after.slice(parenIndex + 1, closeIndex);
-  const argParts = argsText
-    .split(',')
-    .map((s: string) => s.trim())
-    .filter((s: string) => s.length);
-  
-  if (argParts.length > paramNames.length) {
+}
+
+export interface ObjectArgProperty {
+  name: string;
+  valueText: string;
+}
+
+function isSimpleMemberChain(exprText: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*(\??\.[A-Za-z_$][A-Za-z0-9_$]*)*$/.test(
+    exprText.trim()
+  );
+}
+
+/** A literal, or `this`, whose value can't change between evaluations */
+function isLiteralText(exprText: string): boolean {
+  return /^(-?\d[\d_.eE+-]*|'[^'\\]*'|"[^"\\]*"|true|false|null|undefined|this)$/.test(
+    exprText.trim()
+  );
+}
+
+/**
+ * Whether the expression can be evaluated more than once, or in another
+ * order, without changing what it does: a name, member chain or literal
+ */
+export function isSimpleValueText(exprText: string): boolean {
+  return isSimpleMemberChain(exprText) || isLiteralText(exprText);
+}
+
+/**
+ * Build replacement text for a call site when converting an object
+ * parameter back to positional parameters.
+ * With objectProps (literal object argument) each property value is placed
+ * in its parameter slot. Without it the whole argument is an opaque
+ * expression and each slot reads a property from it.
+ */
+export function buildPositionalCallReplacement(
+  exprText: string,
+  objectProps: ObjectArgProperty[] | null,
+  objectArgText: string | undefined,
+  paramNames: string[]
+): string {
+  if (!objectProps) {
+    if (!objectArgText || !objectArgText.trim()) {
+      return `${exprText}()`;
+    }
+    const trimmed = objectArgText.trim();
+    const objText = isSimpleMemberChain(trimmed) ? trimmed : `(${trimmed})`;
+    const args = paramNames.map((name) => `${objText}.${name}`);
+    return `${exprText}(${args.join(', ')})`;
+  }
+
+  const args: string[] = paramNames.map((name) => {
+    const prop = objectProps.find((p) => p.name === name);
+    return prop ? prop.valueText : 'undefined';
+  });
+
+  // Drop trailing parameters that the object did not supply
+  let lastSupplied = -1;
+  for (let i = 0; i < paramNames.length; i++) {
+    if (objectProps.some((p) => p.name === paramNames[i])) {
+      lastSupplied = i;
+    }
+  }
+
+  return `${exprText}(${args.slice(0, lastSupplied + 1).join(', ')})`;
+}
+
+/**
+ * Replace the parameter list of a function with positional parameters.
+ * The list is located by its parameter nodes, relative to the function's
+ * start, so parentheses in defaults or types don't matter.
+ */
+export function transformFunctionToPositional(
+  fnText: string,
+  params: any[],
+  fnStart: number,
+  positionalParamsText: string
+): string {
+  if (!params.length) {
+    return fnText;
+  }
+  const start = params[0].getStart() - fnStart;
+  const end = params[params.length - 1].getEnd() - fnStart;
+  return fnText.slice(0, start) + positionalParamsText + fnText.slice(end);
+}
+
+/**
+ * Remove a "let { ... } = objectVar;" statement from the function body,
+ * including its indentation and line break. Reverses
+ * insertObjectVariableDestructureLine.
+ */
+export function removeObjectVariableDestructureLine(
+  fnText: string,
+  statementText: string
+): string {
+  const idx = fnText.indexOf(statementText);
+  if (idx < 0) {
+    return fnText;
+  }
+  let start = idx;
+  while (start > 0 && (fnText[start - 1] === ' ' || fnText[start - 1] === '\t')) {
+    start--;
+  }
+  let end = idx + statementText.length;
+  const atLineStart = start === 0 || fnText[start - 1] === '\n';
+  if (atLineStart) {
+    while (end < fnText.length && (fnText[end] === ' ' || fnText[end] === '\t')) {
+      end++;
+    }
+    if (fnText[end] === '\r') end++;
+    if (fnText[end] === '\n') end++;
+  } else {
+    start = idx;
+  }
+  return fnText.slice(0, start) + fnText.slice(end);
+}
+
+export interface TextEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/**
+ * Single edit turning originalText into updatedText, covering only the
+ * span between their common prefix and suffix. Null when they are equal.
+ */
+export function buildMinimalEdit(
+  originalText: string,
+  updatedText: string
+): TextEdit | null {
+  if (originalText === updatedText) {
     return null;
   }
-  
-  const functionName = fullText.slice(rangeStart, rangeStart + parenIndex);
-  const replacement = buildCallReplacement(
-    functionName,
-    argParts,
-    paramNames,
-    optionalParamFlags
-  );
-  
+  let start = 0;
+  const maxStart = Math.min(originalText.length, updatedText.length);
+  while (start < maxStart && originalText[start] === updatedText[start]) {
+    start++;
+  }
+  let suffix = 0;
+  const maxSuffix = maxStart - start;
+  while (
+    suffix < maxSuffix &&
+    originalText[originalText.length - 1 - suffix] ===
+      updatedText[updatedText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
   return {
-    replacement,
-    start: rangeStart,
-    end: rangeStart + closeIndex + 1
+    start,
+    end: originalText.length - suffix,
+    newText: updatedText.slice(start, updatedText.length - suffix),
+  };
+}
+
+/**
+ * Build a unified diff of edits to one file. Edits are offsets into
+ * originalText and must not overlap.
+ */
+export function buildUnifiedDiff(
+  filePath: string,
+  originalText: string,
+  edits: TextEdit[],
+  contextLines = 3
+): string {
+  if (!edits.length) {
+    return '';
+  }
+  const sorted = [...edits].sort((a, b) => a.start - b.start);
+  const oldLines = originalText.split('\n');
+  if (originalText.endsWith('\n')) {
+    oldLines.pop();
+  }
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of oldLines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+  const lineAt = (pos: number): number => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= pos) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  };
+  const lastLine = oldLines.length - 1;
+  const noEolMarker = '\\ No newline at end of file';
+  const hasNoFinalEol = !originalText.endsWith('\n');
+
+  // Edits touching the same line become one block of replaced lines
+  const blocks: { first: number; last: number; edits: TextEdit[] }[] = [];
+  for (const e of sorted) {
+    const first = lineAt(e.start);
+    const last = lineAt(Math.max(e.start, e.end - 1));
+    const prev = blocks[blocks.length - 1];
+    if (prev && first <= prev.last) {
+      prev.last = Math.max(prev.last, last);
+      prev.edits.push(e);
+    } else {
+      blocks.push({ first, last, edits: [e] });
+    }
+  }
+
+  const blockNewLines = (block: (typeof blocks)[number]): string[] => {
+    const blockStart = lineStarts[block.first];
+    const blockEnd = lineStarts[block.last] + oldLines[block.last].length;
+    let result = '';
+    let cursor = blockStart;
+    for (const e of block.edits) {
+      result += originalText.slice(cursor, e.start) + e.newText;
+      cursor = e.end;
+    }
+    result += originalText.slice(cursor, blockEnd);
+    return result.split('\n');
   };
+
+  // Blocks close enough to share context lines go in the same hunk
+  const hunks: (typeof blocks)[] = [];
+  for (const block of blocks) {
+    const hunk = hunks[hunks.length - 1];
+    const prevLast = hunk ? hunk[hunk.length - 1].last : -Infinity;
+    if (hunk && block.first - prevLast - 1 <= contextLines * 2) {
+      hunk.push(block);
+    } else {
+      hunks.push([block]);
+    }
+  }
+
+  const out = [`--- a/${filePath}`, `+++ b/${filePath}`];
+  let lineDelta = 0;
+  for (const hunk of hunks) {
+    const oldStart = Math.max(0, hunk[0].first - contextLines);
+    const oldEnd = Math.min(
+      oldLines.length - 1,
+      hunk[hunk.length - 1].last + contextLines
+    );
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let line = oldStart;
+    const pushContext = (): void => {
+      body.push(' ' + oldLines[line]);
+      if (hasNoFinalEol && line === lastLine) body.push(noEolMarker);
+      oldCount++;
+      newCount++;
+    };
+    for (const block of hunk) {
+      for (; line < block.first; line++) {
+        pushContext();
+      }
+      for (; line <= block.last; line++) {
+        body.push('-' + oldLines[line]);
+        oldCount++;
+      }
+      if (hasNoFinalEol && block.last === lastLine) body.push(noEolMarker);
+      for (const newLine of blockNewLines(block)) {
+        body.push('+' + newLine);
+        newCount++;
+      }
+      if (hasNoFinalEol && block.last === lastLine) body.push(noEolMarker);
+    }
+    for (; line <= oldEnd; line++) {
+      pushContext();
+    }
+    const newStart = oldStart + lineDelta;
+    out.push(
+      `@@ -${oldStart + 1},${oldCount} +${newStart + 1},${newCount} @@`,
+      ...body
+    );
+    lineDelta += newCount - oldCount;
+  }
+  return out.join('\n') + '\n';
 }
 
 /**
@@ -284,26 +1028,6 @@ export async function applyCallEdits(
       const replAll = buildReplacement(c.exprText, c.argsText);
       log('scheduling replace in', c.filePath, 'range', c.start, c.end);
       editAll.replace(uri, new vscode.Range(startP, endP), replAll);
-    } else if (c.filePath && typeof c.rangeStart === 'number') {
-      // Handle template calls (rangeStart/rangeEnd instead of start/end)
-      const uri = vscode.Uri.file(c.filePath);
-      const doc = await vscode.workspace.openTextDocument(uri);
-      docsToSaveAll.set(c.filePath, doc);
-      const templateResult = buildTemplateCallReplacement(
-        doc.getText(),
-        c.rangeStart,
-        paramNames,
-        optionalParamFlags
-      );
-      if (templateResult) {
-        const startPos = doc.positionAt(templateResult.start);
-        const endPos = doc.positionAt(templateResult.end);
-        editAll.replace(
-          uri,
-          new vscode.Range(startPos, endPos),
-          templateResult.replacement
-        );
-      }
     }
   }
 
@@ -39,33 +39,126 @@ export function getWorkspaceContext(): WorkspaceContext | null {
   return { editor, workspaceRoot, filePath };
 }
 
-function toGlobPath(p?: string): string | undefined {
-  if (!p) return undefined;
-  return p.replace(/\\/g, '/');
+/** Settings for the workspace folder that contains the file or folder */
+export function getResourceConfig(
+  fsPath?: string
+): vscode.WorkspaceConfiguration {
+  return vscode.workspace.getConfiguration(
+    'objectifyParams',
+    fsPath ? vscode.Uri.file(fsPath) : undefined
+  );
 }
 
-export function isFileIncludedByConfig(
-  filePath: string,
+/** Parameter count above which functions are flagged and batch-converted */
+export function getMaxParams(fsPath?: string): number {
+  const maxParams = getResourceConfig(fsPath).get('12.maxParams');
+  return typeof maxParams === 'number' && maxParams >= 0 ? maxParams : 3;
+}
+
+/** Include and exclude glob patterns of a workspace folder */
+export function getFolderGlobs(folderRoot: string): {
+  includePatterns: string[];
+  excludePatterns: string[];
+} {
+  const cfg = getResourceConfig(folderRoot);
+  const includeStr = ((cfg.get('6.include') as string) || '').trim();
+  const excludeStr =
+    (cfg.get('5.exclude') as string) || '**/node_modules/**';
+  return {
+    includePatterns: includeStr.split(/\s+/).filter(Boolean),
+    excludePatterns: excludeStr.split(/\s+/).filter(Boolean),
+  };
+}
+
+/**
+ * Workspace folders to scan for calls, per the workspaceFolders setting.
+ * The folder of the current file is always first. Returns null when the
+ * user cancels the folder pick.
+ */
+export async function selectWorkspaceFolders(
   workspaceRoot: string
-): { included: boolean; includeGlobs: string; excludeGlobs: string } {
+): Promise<string[] | null> {
+  const folders = vscode.workspace.workspaceFolders || [];
+  const others = folders
+    .map((f) => f.uri.fsPath)
+    .filter((f) => f !== workspaceRoot);
+  if (!others.length) {
+    return [workspaceRoot];
+  }
+
   const cfg = vscode.workspace.getConfiguration('objectifyParams');
-  const includeGlobs =
-    (cfg.get('6.include') as string) || '**/*.ts **/*.js';
-  const excludeGlobs =
-    (cfg.get('5.exclude') as string) || '**/node_modules/**';
-  const includePatterns = includeGlobs.split(/\s+/).filter(Boolean);
-  const excludePatterns = excludeGlobs.split(/\s+/).filter(Boolean);
+  const mode = (cfg.get('9.workspaceFolders') as string) || 'all';
+  if (mode === 'current') {
+    return [workspaceRoot];
+  }
+  if (mode !== 'pick') {
+    return [workspaceRoot, ...others];
+  }
 
-  const result = {
-    included: false,
-    includeGlobs,
-    excludeGlobs,
-  };
+  const picked = await vscode.window.showQuickPick(
+    folders
+      .filter((f) => f.uri.fsPath !== workspaceRoot)
+      .map((f) => ({ label: f.name, description: f.uri.fsPath, picked: true })),
+    {
+      canPickMany: true,
+      placeHolder: 'Objectify Params: Other workspace folders to scan for calls',
+    }
+  );
+  if (!picked) {
+    return null;
+  }
+  return [workspaceRoot, ...picked.map((p) => p.description)];
+}
+
+/** Name of the workspace folder containing the file, when multi-root */
+export function getFolderName(filePath: string): string | undefined {
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length < 2) {
+    return undefined;
+  }
+  return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.name;
+}
+
+/** Order of the workspace folder containing the file, for grouping */
+export function getFolderIndex(filePath: string): number {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+  return folder ? folder.index : -1;
+}
 
-  if (!includePatterns.length) {
-    return result;
+/**
+ * Per-folder counts such as " (app: 3, lib: 2)" for summary messages,
+ * empty in a single-folder workspace
+ */
+export function summarizeByFolder(filePaths: string[]): string {
+  const counts = new Map<string, number>();
+  for (const fp of filePaths) {
+    const name = getFolderName(fp);
+    if (!name) {
+      return '';
+    }
+    counts.set(name, (counts.get(name) || 0) + 1);
+  }
+  if (!counts.size) {
+    return '';
   }
+  const parts = Array.from(counts, ([name, count]) => `${name}: ${count}`);
+  return ` (${parts.join(', ')})`;
+}
+
+function toGlobPath(p?: string): string | undefined {
+  if (!p) return undefined;
+  return p.replace(/\\/g, '/');
+}
 
+/**
+ * True when the file matches any of the glob patterns, tried against both
+ * its absolute path and its path relative to the workspace root
+ */
+export function matchesGlobs(
+  filePath: string,
+  workspaceRoot: string,
+  patterns: string[]
+): boolean {
   const candidates: string[] = [];
   const absoluteCandidate = toGlobPath(path.resolve(filePath));
   if (absoluteCandidate) {
@@ -80,29 +173,32 @@ export function isFileIncludedByConfig(
     }
   }
 
-  if (!candidates.length) {
-    return result;
-  }
-
-  const matchesInclude = includePatterns.some((pattern) => {
+  return patterns.some((pattern) => {
     const matcher = new Minimatch(pattern, minimatchOptions);
     return candidates.some((candidate) => matcher.match(candidate));
   });
+}
 
-  if (!matchesInclude) {
-    return result;
-  }
+/**
+ * Check the include/exclude settings. An empty include leaves the choice
+ * of files to the project's tsconfig.json/jsconfig.json.
+ */
+export function isFileIncludedByConfig(
+  filePath: string,
+  workspaceRoot: string
+): { included: boolean; includeGlobs: string; excludeGlobs: string } {
+  const { includePatterns, excludePatterns } = getFolderGlobs(workspaceRoot);
+  const includeGlobs = includePatterns.join(' ');
+  const excludeGlobs = excludePatterns.join(' ');
 
-  const matchesExclude = excludePatterns.length
-    ? excludePatterns.some((pattern) => {
-        const matcher = new Minimatch(pattern, minimatchOptions);
-        return candidates.some((candidate) => matcher.match(candidate));
-      })
-    : false;
+  const matchesInclude =
+    !includePatterns.length ||
+    matchesGlobs(filePath, workspaceRoot, includePatterns);
 
   return {
-    included: !matchesExclude,
-    includeGlobs,
+    included:
+      matchesInclude && !matchesGlobs(filePath, workspaceRoot, excludePatterns),
+    includeGlobs: includeGlobs || '(project config)',
     excludeGlobs,
   };
 }
@@ -0,0 +1,55 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as path from 'path';
+import * as parse from '../src/parse';
+import { planBatch } from '../src/batch';
+import { createWorkspace, removeWorkspace, defaultSettings } from './helpers';
+
+let root = '';
+
+afterEach(() => {
+  if (root) removeWorkspace(root);
+  root = '';
+});
+
+const target = (filePath: string, fnName: string) => ({
+  filePath,
+  fnName,
+  index: 0,
+  start: 0,
+  end: 0,
+  line: 0,
+  before: '',
+});
+
+describe('planBatch', () => {
+  it('skips a function with calls that need review and keeps its text', async () => {
+    root = createWorkspace({
+      'src/a.ts': [
+        'export function pad(text: string, width: number) { return text; }',
+        'export function join(a: string, b: string) { return a + b; }',
+        'const parts: [string, number][] = [];',
+        "pad('x', 2);",
+        'pad(...parts[0], 3);',
+        "join('a', 'b');",
+        '',
+      ].join('\n'),
+    });
+    const filePath = path.join(root, 'src/a.ts');
+    const project = await parse.createProjectFromConfig(root, filePath, [root]);
+
+    const plan = await planBatch(
+      project,
+      root,
+      [root],
+      [target(filePath, 'pad'), target(filePath, 'join')],
+      defaultSettings
+    );
+
+    expect(plan.functions[0].skipReason).toMatch(/1 call\(s\) need review/);
+    expect(plan.functions[1].skipReason).toBeUndefined();
+    const updated = plan.updatedTexts.get(filePath) as string;
+    expect(updated).toContain('function pad(text: string, width: number)');
+    expect(updated).toContain("pad('x', 2);");
+    expect(updated).toContain("join({ a:'a', b:'b' });");
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as cache from '../src/cache';
+import { createWorkspace, removeWorkspace } from './helpers';
+
+let root = '';
+
+afterEach(() => {
+  cache.invalidate('test finished');
+  if (root) removeWorkspace(root);
+  root = '';
+});
+
+describe('getProject', () => {
+  it('reuses the project and refreshes files changed on disk', async () => {
+    root = createWorkspace({
+      'src/a.ts': 'export function f(a: number) {}\n',
+    });
+    const filePath = path.join(root, 'src/a.ts');
+    const [sourceWatcher] = cache.registerWatchers() as any[];
+    const project = await cache.getProject(root, filePath, [root]);
+
+    fs.writeFileSync(filePath, 'export function f(a: number, b: number) {}\n');
+    sourceWatcher.onDidChange.mock.lastCall[0](vscode.Uri.file(filePath));
+    const created = path.join(root, 'src/b.ts');
+    fs.writeFileSync(created, "import { f } from './a';\nf(1, 2);\n");
+    sourceWatcher.onDidCreate.mock.lastCall[0](vscode.Uri.file(created));
+
+    const reused = await cache.getProject(root, filePath, [root]);
+    expect(reused).toBe(project);
+    expect(reused.getSourceFileOrThrow(filePath).getFullText()).toContain(
+      'b: number'
+    );
+    expect(reused.getSourceFile(created)).toBeDefined();
+  });
+
+  it('builds a new project when the exclude setting changes', async () => {
+    root = createWorkspace({ 'src/a.ts': 'export const a = 1;\n' });
+    const filePath = path.join(root, 'src/a.ts');
+    cache.registerWatchers();
+    const project = await cache.getProject(root, filePath, [root]);
+
+    const onConfigChange = vi.mocked(vscode.workspace.onDidChangeConfiguration)
+      .mock.lastCall![0];
+    onConfigChange({
+      affectsConfiguration: (key: string) => key === 'objectifyParams.5.exclude',
+    } as any);
+
+    expect(await cache.getProject(root, filePath, [root])).not.toBe(project);
+  });
+});
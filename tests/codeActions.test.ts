@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { registerCodeActionProvider } from '../src/codeActions';
+import * as diagnostics from '../src/diagnostics';
+import { createDocument } from './helpers';
+
+const fileText = [
+  'export function send(to: string, body: string) {}',
+  'export class Box { constructor(private size: number) {} }',
+  'export const run = () => [1].map(function (n) { return n; });',
+  '',
+].join('\n');
+const document = createDocument('/ws/src/a.ts', fileText);
+
+/** Code actions at the offset of the marker, with the given diagnostics */
+function actionsAt(marker: string, contextDiagnostics: any[] = []): any[] {
+  registerCodeActionProvider();
+  const provider = vi.mocked(vscode.languages.registerCodeActionsProvider).mock
+    .lastCall![1] as any;
+  const offset = fileText.indexOf(marker);
+  return provider.provideCodeActions(
+    document,
+    new vscode.Range(offset as any, offset as any),
+    { diagnostics: contextDiagnostics }
+  );
+}
+
+describe('code actions', () => {
+  it('offers the rewrite in a function signature', () => {
+    const [action] = actionsAt('to: string');
+
+    expect(action.title).toBe('Objectify Params');
+    expect(action.kind).toBe(vscode.CodeActionKind.RefactorRewrite);
+    expect(action.command.command).toBe('objectifyParams.convert');
+    expect(action.command.arguments).toEqual([
+      document.uri,
+      fileText.indexOf('to: string'),
+    ]);
+    expect(action.disabled).toBeUndefined();
+  });
+
+  it('disables the rewrite with the reason it cannot convert', () => {
+    expect(actionsAt('private size')[0].disabled).toEqual({
+      reason: expect.stringContaining('parameter properties'),
+    });
+    expect(actionsAt('(n)')[0].disabled).toEqual({
+      reason: 'Cannot convert anonymous functions.',
+    });
+  });
+
+  it('adds a quick fix for a long parameter list diagnostic', () => {
+    const diagnostic = {
+      source: diagnostics.DIAGNOSTIC_SOURCE,
+      code: diagnostics.LONG_PARAM_LIST_CODE,
+      range: new vscode.Range(16 as any, 20 as any),
+    };
+
+    const [fix, rewrite] = actionsAt('to: string', [diagnostic]);
+
+    expect(fix.kind).toBe(vscode.CodeActionKind.QuickFix);
+    expect(fix.diagnostics).toEqual([diagnostic]);
+    expect(fix.command.arguments).toEqual([document.uri, 16]);
+    expect(rewrite.kind).toBe(vscode.CodeActionKind.RefactorRewrite);
+  });
+});
@@ -0,0 +1,380 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createWorkspace, removeWorkspace, convertAt } from './helpers';
+
+let root = '';
+
+afterEach(() => {
+  if (root) removeWorkspace(root);
+  root = '';
+});
+
+describe('overloads', () => {
+  it('converts each overload and aliases the implementation names', async () => {
+    root = createWorkspace({
+      'src/calc.ts': [
+        'export class Calc {',
+        '  add(x: number, y: number): number;',
+        '  add(a: number, b: number) { return a + b; }',
+        '}',
+        'new Calc().add(1, 2);',
+        '',
+      ].join('\n'),
+    });
+
+    const { texts } = await convertAt(root, 'src/calc.ts', 'add(a');
+
+    expect(texts['src/calc.ts']).toBe(
+      [
+        'export class Calc {',
+        '  add({ x, y }: { x: number; y: number }): number;',
+        '  add({ x, y }: { x: number; y: number }) {',
+        '    let a = x;',
+        '    let b = y;',
+        '    return a + b;',
+        '  }',
+        '}',
+        'new Calc().add({ x:1, y:2 });',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('constructors', () => {
+  it('rewrites new calls in the same and in other files', async () => {
+    root = createWorkspace({
+      'src/store.ts': [
+        'export class Store {',
+        '  constructor(name: string, size = 1) {}',
+        '}',
+        "const local = new Store('q');",
+        '',
+      ].join('\n'),
+      'src/app.ts': [
+        "import { Store } from './store';",
+        "export const disk = new Store('d', 4);",
+        '',
+      ].join('\n'),
+    });
+
+    const { texts } = await convertAt(root, 'src/store.ts', 'constructor(');
+
+    expect(texts['src/store.ts']).toContain(
+      'constructor({ name, size = 1 }: { name: string; size?: number }) {}'
+    );
+    expect(texts['src/store.ts']).toContain("new Store({ name:'q' })");
+    expect(texts['src/app.ts']).toContain("new Store({ name:'d', size:4 })");
+  });
+
+  it('turns parameter properties into fields and rewrites new calls', async () => {
+    root = createWorkspace({
+      'src/user.ts': [
+        'export class User {',
+        '  constructor(private readonly id: number, public name: string) {}',
+        '}',
+        '',
+      ].join('\n'),
+      'src/app.ts': [
+        "import { User } from './user';",
+        "export const ann = new User(1, 'Ann');",
+        '',
+      ].join('\n'),
+    });
+
+    const { texts } = await convertAt(root, 'src/user.ts', 'constructor(', {
+      convertParameterProperties: true,
+    });
+
+    expect(texts['src/user.ts']).toContain('private readonly id: number;');
+    expect(texts['src/user.ts']).toContain('this.id = id;');
+    expect(texts['src/app.ts']).toContain("new User({ id:1, name:'Ann' })");
+  });
+});
+
+describe('function types and interface signatures', () => {
+  const files = {
+    'src/types.ts': 'export type Fn = (a: string, b: number) => void;\n',
+    'src/impl.ts': [
+      "import { Fn } from './types';",
+      'export const f: Fn = (a, b) => {};',
+      'export const g: Fn = (x, y) => {};',
+      "export function run(h: Fn) { h?.('r', 1); }",
+      "f('a', 1);",
+      'run(f);',
+      '',
+    ].join('\n'),
+  };
+
+  it('converts a function type with the functions it types', async () => {
+    root = createWorkspace(files);
+
+    const { texts } = await convertAt(root, 'src/types.ts', '(a: string');
+
+    expect(texts['src/types.ts']).toBe(
+      'export type Fn = ({ a, b }: { a: string; b: number }) => void;\n'
+    );
+    expect(texts['src/impl.ts']).toContain('const f: Fn = ({ a, b }) => {};');
+    expect(texts['src/impl.ts']).toContain('const g: Fn = ({ a: x, b: y }) => {};');
+    expect(texts['src/impl.ts']).toContain("h?.({ a:'r', b:1 });");
+    expect(texts['src/impl.ts']).toContain("f({ a:'a', b:1 });");
+  });
+
+  it('converts the function type of a typed implementation', async () => {
+    root = createWorkspace(files);
+
+    const { plan, texts } = await convertAt(root, 'src/impl.ts', '(a, b)');
+
+    expect(texts['src/types.ts']).toBe(
+      'export type Fn = ({ a, b }: { a: string; b: number }) => void;\n'
+    );
+    expect(texts['src/impl.ts']).toContain('const f: Fn = ({ a, b }');
+    expect(texts['src/impl.ts']).toContain('const g: Fn = ({ a: x, b: y }) => {};');
+    expect(texts['src/impl.ts']).toContain("h?.({ a:'r', b:1 });");
+    expect(texts['src/impl.ts']).toContain("f({ a:'a', b:1 });");
+    expect(texts['src/impl.ts']).toContain('run(f);');
+    expect('fuzzy' in plan && plan.fuzzy).toEqual([]);
+  });
+
+  it('converts the interface method of an object literal method', async () => {
+    root = createWorkspace({
+      'src/store.ts': [
+        'export interface Store { save(key: string, value: number): void; }',
+        'export const memory: Store = { save(k, v) {} };',
+        'export class Disk implements Store { save(key: string, value: number) {} }',
+        "memory.save('a', 1);",
+        '',
+      ].join('\n'),
+    });
+
+    const { texts } = await convertAt(root, 'src/store.ts', 'save(k, v)');
+
+    expect(texts['src/store.ts']).toBe(
+      [
+        'export interface Store { save({ k: key, v: value }: { k: string; v: number }): void; }',
+        'export const memory: Store = { save({ k, v }: { k: string; v: number }) {} };',
+        'export class Disk implements Store { save({ k: key, v: value }: { k: string; v: number }) {} }',
+        "memory.save({ k:'a', v:1 });",
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('adapters', () => {
+  it('types adapter parameters in TypeScript files', async () => {
+    root = createWorkspace({
+      'src/greet.ts': [
+        'export interface Person { name: string }',
+        'export function greet(who: Person, times = 1) {}',
+        '',
+      ].join('\n'),
+      'src/app.ts': [
+        "import { greet } from './greet';",
+        'export const handlers = [greet];',
+        "export const later = [greet.bind(null, { name: 'Ann' })];",
+        '',
+      ].join('\n'),
+    });
+
+    const { plan } = await convertAt(root, 'src/greet.ts', 'greet(');
+    if ('skipReason' in plan) throw new Error(String(plan.skipReason));
+
+    expect(plan.fuzzy.map((c) => plan.buildCandidateReplacement(c))).toEqual([
+      '((who) => (times?: number) => greet.call(null, { who, times }))({ name: \'Ann\' })',
+      '(who: import("./greet").Person, times?: number) => greet({ who, times })',
+    ]);
+  });
+});
+
+describe('CommonJS modules', () => {
+  it('treats module.exports shorthand properties as exports', async () => {
+    root = createWorkspace({
+      'src/mail.js': 'function send(to, body) {}\nmodule.exports = { send };\n',
+      'src/app.js': [
+        "const { send } = require('./mail');",
+        "send('a', 'b');",
+        "const mail = require('./mail');",
+        "mail.send('c', 'd');",
+        '',
+      ].join('\n'),
+    });
+
+    const { plan, texts } = await convertAt(root, 'src/mail.js', 'send(');
+
+    expect('fuzzy' in plan && plan.fuzzy).toEqual([]);
+    expect(texts['src/mail.js']).toBe(
+      'function send({ to, body }) {}\nmodule.exports = { send };\n'
+    );
+    expect(texts['src/app.js']).toContain("send({ to:'a', body:'b' });");
+    expect(texts['src/app.js']).toContain("mail.send({ to:'c', body:'d' });");
+  });
+});
+
+describe('Vue and Svelte components', () => {
+  it('converts a function of a TypeScript script block', async () => {
+    root = createWorkspace({
+      'src/App.vue': [
+        '<template>',
+        "  <p>{{ greet('b', 3) }}</p>",
+        '</template>',
+        '<script setup lang="ts">',
+        'function greet(name: string, times: number) {}',
+        "greet('a', 2);",
+        '</script>',
+        '',
+      ].join('\n'),
+    });
+
+    const { plan, texts } = await convertAt(root, 'src/App.vue', 'greet(name');
+
+    expect(texts['src/App.vue']).toBe(
+      [
+        '<template>',
+        "  <p>{{ greet('b', 3) }}</p>",
+        '</template>',
+        '<script setup lang="ts">',
+        'function greet({ name, times }: { name: string; times: number }) {}',
+        "greet({ name:'a', times:2 });",
+        '</script>',
+        '',
+      ].join('\n')
+    );
+    expect('fuzzy' in plan && plan.fuzzy.map((c) => c.text)).toEqual([
+      "greet('b', 3)",
+    ]);
+  });
+
+  it('converts a function of a JavaScript Svelte script without types', async () => {
+    root = createWorkspace({
+      'src/Card.svelte': [
+        '<script>',
+        '  export function label(title, count) { return title; }',
+        "  label('x', 1);",
+        '</script>',
+        '<h1>{title}</h1>',
+        '',
+      ].join('\n'),
+    });
+
+    const { texts } = await convertAt(root, 'src/Card.svelte', 'label(title');
+
+    expect(texts['src/Card.svelte']).toContain(
+      'export function label({ title, count }) { return title; }'
+    );
+    expect(texts['src/Card.svelte']).toContain("label({ title:'x', count:1 });");
+  });
+});
+
+describe('method families', () => {
+  it('converts overrides, interface methods and super calls together', async () => {
+    root = createWorkspace({
+      'src/shapes.ts': [
+        'export interface Drawable { draw(x: number, y: number): void; }',
+        'export abstract class Shape implements Drawable {',
+        '  abstract draw(x: number, y: number): void;',
+        '}',
+        'export class Dot extends Shape {',
+        '  draw(x: number, y: number) {}',
+        '}',
+        'export class BigDot extends Dot {',
+        '  draw(x: number, y: number) { super.draw(x, y); }',
+        '}',
+        '',
+      ].join('\n'),
+      'src/app.ts': [
+        "import { Drawable, Dot } from './shapes';",
+        'declare const d: Drawable;',
+        'd.draw(1, 2);',
+        'new Dot().draw(3, 4);',
+        '',
+      ].join('\n'),
+    });
+
+    const { texts } = await convertAt(
+      root,
+      'src/shapes.ts',
+      'draw(x: number, y: number) {}'
+    );
+
+    const objectParam = '{ x, y }: { x: number; y: number }';
+    expect(texts['src/shapes.ts']).toBe(
+      [
+        `export interface Drawable { draw(${objectParam}): void; }`,
+        'export abstract class Shape implements Drawable {',
+        `  abstract draw(${objectParam}): void;`,
+        '}',
+        'export class Dot extends Shape {',
+        `  draw(${objectParam}) {}`,
+        '}',
+        'export class BigDot extends Dot {',
+        `  draw(${objectParam}) { super.draw({ x, y }); }`,
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(texts['src/app.ts']).toContain('d.draw({ x:1, y:2 });');
+    expect(texts['src/app.ts']).toContain('new Dot().draw({ x:3, y:4 });');
+  });
+});
+
+describe('JSDoc', () => {
+  it('moves parameter descriptions of TypeScript functions onto the type', async () => {
+    root = createWorkspace({
+      'src/math.ts': [
+        '/**',
+        ' * Adds two numbers.',
+        ' * @param a - The first',
+        ' * @param b - The second',
+        ' * @returns The sum',
+        ' */',
+        'export function add(a: number, b: number) { return a + b; }',
+        '',
+      ].join('\n'),
+    });
+
+    const { texts } = await convertAt(root, 'src/math.ts', 'add(a', {
+      paramsTypeName: '${FnName}Params',
+    });
+
+    expect(texts['src/math.ts']).toBe(
+      [
+        'export interface AddParams {',
+        '  /** The first */',
+        '  a: number;',
+        '  /** The second */',
+        '  b: number;',
+        '}',
+        '',
+        '/**',
+        ' * Adds two numbers.',
+        ' * @returns The sum',
+        ' */',
+        'export function add({ a, b }: AddParams) { return a + b; }',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('prefers the JSDoc description to a comment before the parameter', async () => {
+    root = createWorkspace({
+      'src/user.ts': [
+        '/**',
+        ' * @param name - Full name',
+        ' */',
+        'export function greet(',
+        '  /** First name */',
+        '  name: string,',
+        '  /** Whether to be formal */',
+        '  polite: boolean',
+        ') {}',
+        '',
+      ].join('\n'),
+    });
+
+    const { texts } = await convertAt(root, 'src/user.ts', 'greet(');
+
+    expect(texts['src/user.ts']).toContain(
+      '{ /** Full name */ name: string; /** Whether to be formal */ polite: boolean }'
+    );
+  });
+});
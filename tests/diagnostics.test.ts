@@ -0,0 +1,73 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { registerDiagnostics } from '../src/diagnostics';
+import { createDocument, mockSettings } from './helpers';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const fileText = [
+  'export function wide(a: number, b: number, c: number) {}',
+  'function local(a: number, b: number, c: number) {}',
+  'export const arrow = (a: number, b: number, c: number) => {};',
+  'export function narrow(a: number, b: number) {}',
+  '[1].forEach(function (a, b, c) {});',
+  'export class Point { constructor(x: number, y: number, z: number) {} }',
+  '',
+].join('\n');
+
+/** Flagged names and messages for the file with the given scope setting */
+function flag(fsPath: string, scope: string): any[] {
+  const document = createDocument(fsPath, fileText);
+  vi.spyOn(vscode.workspace, 'textDocuments', 'get').mockReturnValue([
+    document,
+  ]);
+  const settings: Record<string, unknown> = {
+    '11.longParamDiagnostics': true,
+    '12.maxParams': 2,
+    '13.diagnosticSeverity': 'warning',
+    '14.diagnosticScope': scope,
+  };
+  mockSettings((key) => settings[key]);
+
+  registerDiagnostics();
+  const collection = vi.mocked(vscode.languages.createDiagnosticCollection)
+    .mock.results.at(-1)!.value;
+  const [uri, diagnostics] = collection.set.mock.lastCall;
+  expect(uri).toBe(document.uri);
+  return diagnostics.map((d: any) => ({
+    name: fileText.slice(d.range.start, d.range.end),
+    message: d.message,
+    severity: d.severity,
+  }));
+}
+
+describe('long parameter list diagnostics', () => {
+  it('flags named functions over maxParams', () => {
+    const flagged = flag('/ws/src/all.ts', 'all');
+
+    expect(flagged.map((d) => d.name).sort()).toEqual([
+      'arrow',
+      'constructor',
+      'local',
+      'wide',
+    ]);
+    expect(flagged.find((d) => d.name === 'wide')).toEqual({
+      name: 'wide',
+      message:
+        '"wide" has 3 positional parameters (more than 2). Consider taking an object.',
+      severity: vscode.DiagnosticSeverity.Warning,
+    });
+  });
+
+  it('flags only exported functions with the exported scope', () => {
+    const flagged = flag('/ws/src/exported.ts', 'exported');
+
+    expect(flagged.map((d) => d.name).sort()).toEqual([
+      'arrow',
+      'constructor',
+      'wide',
+    ]);
+  });
+});
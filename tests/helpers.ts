@@ -0,0 +1,189 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { vi } from 'vitest';
+import * as vscode from 'vscode';
+import * as parse from '../src/parse';
+import * as functions from '../src/functions';
+import * as commands from '../src/commands';
+import * as text from '../src/text';
+import * as sfc from '../src/sfc';
+
+export const defaultSettings: commands.ConversionSettings = {
+  objectVariableName: '',
+  preserveTypes: true,
+  convertParameterProperties: false,
+  paramsTypeName: '',
+  paramsTypeKind: 'interface',
+};
+
+/** Write the files into a new temporary folder and return its path */
+export function createWorkspace(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'objectify-'));
+  for (const [name, content] of Object.entries(files)) {
+    const filePath = path.join(root, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+  return root;
+}
+
+export function removeWorkspace(root: string): void {
+  fs.rmSync(root, { recursive: true, force: true });
+}
+
+/**
+ * Answer settings reads with get(key, path of the resource they are read
+ * for) until the mocks are restored
+ */
+export function mockSettings(
+  get: (key: string, fsPath?: string) => unknown
+): void {
+  vi.spyOn(vscode.workspace, 'getConfiguration').mockImplementation(
+    (section?: string, scope?: any) =>
+      ({ get: (key: string) => get(key, scope?.fsPath) }) as any
+  );
+}
+
+/**
+ * An open document for features that parse documents on their own.
+ * Positions are plain offsets.
+ */
+export function createDocument(
+  fsPath: string,
+  fileText: string,
+  languageId = 'typescript'
+): any {
+  return {
+    uri: { fsPath, scheme: 'file', toString: () => fsPath },
+    fileName: fsPath,
+    languageId,
+    version: 1,
+    getText: () => fileText,
+    positionAt: (offset: number) => offset,
+    offsetAt: (position: number) => position,
+  };
+}
+
+/**
+ * Plan the conversion of the function whose signature contains the marker
+ * text and apply its confirmed edits. Returns the plan and the text of
+ * every file, keyed by its name relative to the workspace.
+ */
+export async function convertAt(
+  root: string,
+  fileName: string,
+  marker: string,
+  settings: Partial<commands.ConversionSettings> = {}
+): Promise<{
+  plan: Awaited<ReturnType<typeof commands.planConversion>>;
+  texts: Record<string, string>;
+}> {
+  const filePath = path.join(root, fileName);
+  const project = await parse.createProjectFromConfig(root, filePath, [root]);
+  // Components are converted in the virtual source file of their scripts
+  const sourceFile = sfc.getSourceFile(project, filePath);
+  if (!sourceFile) throw new Error(`not in the project: ${fileName}`);
+  const offset = sourceFile.getFullText().indexOf(marker);
+  if (offset < 0) throw new Error(`marker not found: ${marker}`);
+  const functionResult = functions.findTargetFunction(
+    sourceFile,
+    offset,
+    (message) => {
+      throw new Error(message);
+    }
+  );
+  if (!functionResult) throw new Error(`no function at: ${marker}`);
+
+  const plan = await commands.planConversion(
+    project,
+    root,
+    [root],
+    sourceFile,
+    filePath,
+    functionResult,
+    { ...defaultSettings, ...settings }
+  );
+  const texts: Record<string, string> = {};
+  for (const sf of project.getSourceFiles()) {
+    texts[path.relative(root, sf.getFilePath())] = sf.getFullText();
+  }
+  if ('skipReason' in plan) {
+    return { plan, texts };
+  }
+
+  const editsByFile = new Map<string, text.TextEdit[]>();
+  const addEdit = (fp: string, edit: text.TextEdit | null): void => {
+    if (edit) editsByFile.set(fp, [...(editsByFile.get(fp) || []), edit]);
+  };
+  const { internal, external } = plan.splitCalls(plan.confirmed);
+  addEdit(filePath, plan.buildFunctionEdit(internal));
+  addEdit(filePath, plan.typeDeclarationEdit);
+  for (const c of external) {
+    addEdit(c.filePath, plan.planCall(c));
+  }
+  for (const [fp, edits] of editsByFile) {
+    const name = path.relative(root, fp);
+    let result = texts[name] ?? fs.readFileSync(fp, 'utf8');
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+      result =
+        result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+    }
+    texts[name] = result;
+  }
+  return { plan, texts };
+}
+
+/**
+ * Collect the calls of the function whose signature contains the marker
+ * text, as the convert command does (or positionalize with objectArgMode)
+ */
+export async function collectCallsAt(
+  root: string,
+  fileName: string,
+  marker: string,
+  paramNames: string[],
+  objectArgMode = false,
+  folderRoots = [root]
+): Promise<parse.CollectedCalls> {
+  const filePath = path.join(root, fileName);
+  const project = await parse.createProjectFromConfig(
+    folderRoots[0],
+    filePath,
+    folderRoots
+  );
+  const sourceFile = project.getSourceFileOrThrow(filePath);
+  const functionResult = functions.findTargetFunction(
+    sourceFile,
+    sourceFile.getFullText().indexOf(marker),
+    (message) => {
+      throw new Error(message);
+    }
+  );
+  if (!functionResult) throw new Error(`no function at: ${marker}`);
+  const { targetFunction, targetVariableDeclaration, fnName } = functionResult;
+  const { resolvedTarget } = parse.resolveSymbol(
+    project,
+    targetFunction,
+    targetVariableDeclaration,
+    fnName
+  );
+  return parse.collectCalls(
+    project,
+    root,
+    fnName,
+    resolvedTarget,
+    paramNames,
+    undefined as any,
+    undefined as any,
+    filePath,
+    targetFunction.getStart(),
+    targetFunction.getEnd(),
+    false,
+    targetVariableDeclaration?.getStart(),
+    false,
+    false,
+    objectArgMode,
+    folderRoots
+  );
+}
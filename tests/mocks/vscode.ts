@@ -1,14 +1,36 @@
+const event = () => () => ({ dispose: () => undefined });
+
 export const window = {
   createOutputChannel: () => ({ appendLine: () => undefined }),
   showInformationMessage: () => Promise.resolve(undefined),
   showWarningMessage: () => Promise.resolve(undefined),
   showErrorMessage: () => Promise.resolve(undefined),
+  showQuickPick: () => Promise.resolve(undefined),
+  createWebviewPanel: () => ({
+    webview: { html: '', cspSource: '', onDidReceiveMessage: event() },
+    onDidDispose: event(),
+    dispose: () => undefined,
+  }),
   activeTextEditor: undefined,
   visibleTextEditors: [],
 };
 
 export const workspace = {
   getConfiguration: () => ({ get: () => undefined }),
+  asRelativePath: (fsPath: string) => fsPath,
+  workspaceFolders: [],
+  textDocuments: [],
+  createFileSystemWatcher: () => ({
+    onDidChange: event(),
+    onDidCreate: event(),
+    onDidDelete: event(),
+    dispose: () => undefined,
+  }),
+  onDidOpenTextDocument: event(),
+  onDidChangeTextDocument: event(),
+  onDidCloseTextDocument: event(),
+  onDidChangeConfiguration: event(),
+  onDidChangeWorkspaceFolders: event(),
   openTextDocument: async () => ({
     getText: () => '',
     positionAt: () => ({ line: 0, character: 0 }),
@@ -16,7 +38,7 @@ export const workspace = {
 };
 
 export const Uri = {
-  file: (fsPath: string) => ({ fsPath, path: fsPath }),
+  file: (fsPath: string) => ({ fsPath, path: fsPath, scheme: 'file' }),
 };
 
 export class Range {
@@ -27,6 +49,11 @@ export class Position {
   constructor(public line: number, public character: number) {}
 }
 
+export enum ViewColumn {
+  One = 1,
+  Beside = -2,
+}
+
 export class Selection {}
 
 export const TextEditorRevealType = {
@@ -41,6 +68,7 @@ export default {
   Uri,
   Range,
   Position,
+  ViewColumn,
   Selection,
   TextEditorRevealType,
 };
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { showReviewPanel, ReviewItem, ReviewModel } from '../src/panel';
+
+const item = (id: number, overrides: Partial<ReviewItem>): ReviewItem => ({
+  id,
+  kind: 'confirmed',
+  filePath: '/ws/src/a.ts',
+  file: 'src/a.ts',
+  line: id + 1,
+  start: 0,
+  end: 0,
+  before: 'f(1, 2)',
+  after: 'f({ a:1, b:2 })',
+  convert: true,
+  ...overrides,
+});
+
+const model: ReviewModel = {
+  functionName: 'f',
+  items: [
+    item(0, {}),
+    item(1, { file: 'src/b.ts', kind: 'fuzzy', reason: 'a <b> reason', convert: false }),
+    item(2, { file: 'src/b.ts', kind: 'fuzzy', after: null }),
+  ],
+};
+
+/** The panel the last showReviewPanel call created */
+const lastPanel = (): any =>
+  vi.mocked(vscode.window.createWebviewPanel).mock.results.at(-1)!.value;
+
+describe('showReviewPanel', () => {
+  it('lists the calls by file with their toggles', () => {
+    void showReviewPanel(model);
+    // The webview script needs the webview API, so only the markup is read
+    const markup = lastPanel().webview.html.replace(/<script[\s\S]*<\/script>/, '');
+    const doc = new DOMParser().parseFromString(markup, 'text/html');
+
+    const groups = Array.from(doc.querySelectorAll('details > summary')).map(
+      (s) => s.textContent!.replace(/\s+/g, ' ').trim()
+    );
+    expect(groups).toEqual(['src/a.ts (1)', 'src/b.ts (2)']);
+    const toggles = Array.from(
+      doc.querySelectorAll<HTMLInputElement>('input.toggle')
+    ).map((t) => [t.hasAttribute('checked'), t.hasAttribute('disabled')]);
+    expect(toggles).toEqual([
+      [true, false],
+      [false, false],
+      [false, true],
+    ]);
+    expect(doc.querySelector('.reason')!.textContent).toBe('a <b> reason');
+  });
+
+  it('resolves to the ids sent with Apply, or null when closed', async () => {
+    const applied = showReviewPanel(model);
+    const panel = lastPanel();
+    panel.webview.onDidReceiveMessage.mock.lastCall[0]({
+      type: 'apply',
+      ids: [0, 1],
+    });
+    expect(await applied).toEqual(new Set([0, 1]));
+    expect(panel.dispose).toHaveBeenCalled();
+
+    const closed = showReviewPanel(model);
+    lastPanel().onDidDispose.mock.lastCall[0]();
+    expect(await closed).toBeNull();
+  });
+
+  it('keeps required declarations converted', async () => {
+    const applied = showReviewPanel({
+      functionName: 'f',
+      items: [item(0, { required: true }), item(1, {})],
+    });
+    const panel = lastPanel();
+    const markup = panel.webview.html.replace(/<script[\s\S]*<\/script>/, '');
+    const doc = new DOMParser().parseFromString(markup, 'text/html');
+    const toggle = doc.querySelector<HTMLInputElement>('input.toggle')!;
+    expect(toggle.hasAttribute('checked')).toBe(true);
+    expect(toggle.hasAttribute('disabled')).toBe(true);
+
+    panel.webview.onDidReceiveMessage.mock.lastCall[0]({ type: 'apply', ids: [] });
+    expect(await applied).toEqual(new Set([0]));
+  });
+
+  it('converts the items of a group together', async () => {
+    const applied = showReviewPanel({
+      functionName: 'f',
+      items: [
+        item(0, { kind: 'fuzzy', convert: false, group: 1 }),
+        item(1, { kind: 'fuzzy', convert: false, group: 1 }),
+        item(2, { kind: 'fuzzy', convert: false, group: 2 }),
+      ],
+    });
+    lastPanel().webview.onDidReceiveMessage.mock.lastCall[0]({
+      type: 'apply',
+      ids: [1],
+    });
+    expect(await applied).toEqual(new Set([0, 1]));
+  });
+
+  it('reports a call it cannot reveal', async () => {
+    vi.mocked(vscode.workspace.openTextDocument).mockRejectedValueOnce(
+      new Error('gone')
+    );
+    void showReviewPanel(model);
+    await lastPanel().webview.onDidReceiveMessage.mock.lastCall[0]({
+      type: 'reveal',
+      id: 1,
+    });
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'Objectify Params: Could not open src/b.ts:2.'
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as path from 'path';
+import * as parse from '../src/parse';
+import * as text from '../src/text';
+import {
+  createWorkspace,
+  removeWorkspace,
+  collectCallsAt,
+  mockSettings,
+} from './helpers';
+
+let root = '';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  if (root) removeWorkspace(root);
+  root = '';
+});
+
+const projectFiles = (project: any): string[] =>
+  project
+    .getSourceFiles()
+    .map((sf: any) => path.relative(root, sf.getFilePath()))
+    .sort();
+
+describe('createProjectFromConfig', () => {
+  it('scans the folder when the file config is not at its root', async () => {
+    root = createWorkspace({
+      'packages/lib/tsconfig.json': JSON.stringify({
+        compilerOptions: { outDir: 'dist' },
+      }),
+      'packages/lib/src/fmt.ts': 'export function fmt(a: number, b: number) {}',
+      'packages/lib/dist/fmt.js': 'function fmt(a, b) {}',
+      'packages/app/src/main.ts': "import { fmt } from '../../lib/src/fmt';",
+    });
+
+    const project = await parse.createProjectFromConfig(
+      root,
+      path.join(root, 'packages/lib/src/fmt.ts')
+    );
+
+    expect(projectFiles(project)).toEqual([
+      path.normalize('packages/app/src/main.ts'),
+      path.normalize('packages/lib/src/fmt.ts'),
+    ]);
+  });
+
+  it('merges paths and permissive options of referenced configs', async () => {
+    root = createWorkspace({
+      'tsconfig.json': JSON.stringify({
+        files: [],
+        references: [{ path: './web' }, { path: './api' }],
+      }),
+      'web/tsconfig.json': JSON.stringify({
+        compilerOptions: { composite: true, paths: { '@web/*': ['./src/*'] } },
+      }),
+      'web/src/a.ts': 'export const a = 1;',
+      'api/tsconfig.json': JSON.stringify({
+        compilerOptions: {
+          composite: true,
+          allowJs: true,
+          baseUrl: '.',
+          paths: { '@api/*': ['./lib/*'] },
+        },
+      }),
+      'api/lib/b.js': 'export const b = 2;',
+    });
+
+    const project = await parse.createProjectFromConfig(
+      root,
+      path.join(root, 'web/src/a.ts')
+    );
+    const options = project.getCompilerOptions();
+
+    expect(options.allowJs).toBe(true);
+    expect(options.paths).toEqual({
+      '@web/*': [path.join(root, 'web/src/*')],
+      '@api/*': [path.join(root, 'api/lib/*')],
+      '*': [path.join(root, 'api/*')],
+    });
+    expect(projectFiles(project)).toContain(path.normalize('api/lib/b.js'));
+  });
+});
+
+describe('collectCalls in several workspace folders', () => {
+  it('finds calls in every folder with its own exclude setting', async () => {
+    root = createWorkspace({
+      'web/src/fmt.ts': 'export function fmt(a: number, b: number) {}\nfmt(1, 2);\n',
+      'api/src/b.ts': "import { fmt } from '../../web/src/fmt';\nfmt(3, 4);\n",
+      'api/legacy/c.ts': "import { fmt } from '../../web/src/fmt';\nfmt(5, 6);\n",
+      'web/legacy/d.ts': "import { fmt } from '../src/fmt';\nfmt(7, 8);\n",
+    });
+    const web = path.join(root, 'web');
+    const api = path.join(root, 'api');
+    mockSettings((key, fsPath) =>
+      key === '5.exclude' && fsPath === api ? '**/legacy/**' : undefined
+    );
+
+    const result = await collectCallsAt(
+      root,
+      'web/src/fmt.ts',
+      'fmt(a',
+      ['a', 'b'],
+      false,
+      [web, api]
+    );
+
+    expect(
+      result.confirmed.map((c) => [path.relative(root, c.filePath), c.argsText])
+    ).toEqual([
+      [path.normalize('web/src/fmt.ts'), ['1', '2']],
+      [path.normalize('web/legacy/d.ts'), ['7', '8']],
+      [path.normalize('api/src/b.ts'), ['3', '4']],
+    ]);
+  });
+});
+
+describe('collectCalls with object arguments', () => {
+  it('sends repeated or reordered evaluation to review', async () => {
+    root = createWorkspace({
+      'src/a.ts': [
+        'export function f({ a, b }: { a: number; b: number }) {}',
+        'declare function next(): number;',
+        'declare const opts: { a: number; b: number };',
+        'declare function make(): { a: number; b: number };',
+        'f({ a: 1, b: 2 });',
+        'f({ b: 2, a: 1 });',
+        'f({ b: next(), a: next() });',
+        'f(opts);',
+        'f(make());',
+        'f({ ...opts });',
+        '',
+      ].join('\n'),
+    });
+
+    const result = await collectCallsAt(root, 'src/a.ts', 'f(', ['a', 'b'], true);
+
+    expect(result.confirmed.map((c) => c.argsText[0])).toEqual([
+      '{ a: 1, b: 2 }',
+      '{ b: 2, a: 1 }',
+    ]);
+    expect(result.fuzzy.map((c) => [c.argsText[0], c.reason])).toEqual([
+      ['{ b: next(), a: next() }', 'reordered-object-props'],
+      ['opts', 'non-literal-object-arg'],
+      ['make()', 'non-literal-object-expr'],
+      ['{ ...opts }', 'unsupported-object-literal'],
+    ]);
+  });
+});
+
+describe('collectCalls in component markup', () => {
+  it('finds template calls under an imported alias', async () => {
+    root = createWorkspace({
+      'src/fmt.ts': 'export function fmt(a: number, b: number) { return a + b; }\n',
+      'src/App.vue': [
+        '<template>',
+        '  <p>{{ show(1, 2) }} {{ fmt(3, 4) }}</p>',
+        '</template>',
+        '<script setup lang="ts">',
+        "import { fmt as show } from './fmt';",
+        '</script>',
+        '',
+      ].join('\n'),
+    });
+
+    const result = await collectCallsAt(root, 'src/fmt.ts', 'fmt(', ['a', 'b']);
+
+    // Markup calls are matched by name, so fmt(3, 4) is listed too
+    expect(result.fuzzy.map((c) => [c.text, c.exprText])).toEqual([
+      ['show(1, 2)', 'show'],
+      ['fmt(3, 4)', 'fmt'],
+    ]);
+  });
+});
+
+describe('collectCalls of an object parameter in component markup', () => {
+  it('lists template calls for positionalizing with their object', async () => {
+    root = createWorkspace({
+      'src/fmt.ts':
+        'export function fmt({ a, b }: { a: number; b: number }) { return a + b; }\n',
+      'src/App.vue': [
+        '<template>',
+        '  <p>{{ fmt({ a: 3, b: 4 }) }} {{ fmt(opts) }}</p>',
+        '</template>',
+        '<script setup lang="ts">',
+        "import { fmt } from './fmt';",
+        'const opts = { a: 1, b: 2 };',
+        '</script>',
+        '',
+      ].join('\n'),
+    });
+
+    const result = await collectCallsAt(
+      root,
+      'src/fmt.ts',
+      'fmt(',
+      ['a', 'b'],
+      true
+    );
+
+    expect(result.alreadyConvertedCount).toBe(0);
+    expect(
+      result.fuzzy.map((c) => [
+        c.text,
+        c.reason,
+        text.buildPositionalCallReplacement(
+          c.exprText,
+          c.objectProps ?? null,
+          c.argsText[0],
+          ['a', 'b']
+        ),
+      ])
+    ).toEqual([
+      ['fmt({ a: 3, b: 4 })', 'template-call', 'fmt(3, 4)'],
+      ['fmt(opts)', 'non-literal-object-arg', 'fmt(opts.a, opts.b)'],
+    ]);
+  });
+});
+
+describe('collectCalls with spread arguments', () => {
+  it('keeps the arguments after a spread of unknown length', async () => {
+    root = createWorkspace({
+      'src/a.ts': [
+        'export function f(a: number, b: number, c: number) {}',
+        'declare const xs: number[];',
+        'f(...xs, 3);',
+        'f(1, ...xs);',
+        '',
+      ].join('\n'),
+    });
+
+    const result = await collectCallsAt(root, 'src/a.ts', 'f(', ['a', 'b', 'c']);
+
+    expect(result.fuzzy.map((c) => [c.argsText, c.reason])).toEqual([
+      [['xs[0]', 'xs[1]', '3'], 'spread-non-tuple'],
+      [['1', 'xs[0]', 'xs[1]'], 'spread-non-tuple'],
+    ]);
+  });
+});
+
+describe('collectCalls of bound functions', () => {
+  it('groups a bind with bound args and the calls of its result', async () => {
+    root = createWorkspace({
+      'src/a.ts': [
+        'export function f(a: number, b: number) {}',
+        'const g = f.bind(null);',
+        'g(1, 2);',
+        'const h = f.bind(null, 5);',
+        'h(6);',
+        '',
+      ].join('\n'),
+    });
+
+    const result = await collectCallsAt(root, 'src/a.ts', 'f(', ['a', 'b']);
+
+    expect(result.confirmed.map((c) => [c.exprText, c.group])).toEqual([
+      ['g', undefined],
+    ]);
+    expect(result.fuzzy.map((c) => c.reason).sort()).toEqual([
+      'bind-partial-args',
+      'bound-partial-args',
+    ]);
+    const [bindGroup, callGroup] = result.fuzzy.map((c) => c.group);
+    expect(bindGroup).toBeDefined();
+    expect(callGroup).toBe(bindGroup);
+  });
+});
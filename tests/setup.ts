@@ -4,6 +4,8 @@ vi.mock('vscode', () => {
   const outputChannel = {
     appendLine: () => undefined,
   };
+  // Events record their listeners, e.g. event.mock.lastCall[0]
+  const event = () => vi.fn(() => ({ dispose: () => undefined }));
 
   return {
     window: {
@@ -11,18 +13,57 @@ vi.mock('vscode', () => {
       showInformationMessage: vi.fn(),
       showWarningMessage: vi.fn(),
       showErrorMessage: vi.fn(),
+      showQuickPick: vi.fn(),
+      createWebviewPanel: vi.fn(() => ({
+        webview: { html: '', cspSource: 'vscode-webview:', onDidReceiveMessage: event() },
+        onDidDispose: event(),
+        dispose: vi.fn(),
+      })),
       activeTextEditor: undefined,
       visibleTextEditors: [],
     },
     workspace: {
       getConfiguration: () => ({ get: () => undefined }),
+      asRelativePath: (path: string) => path,
       workspaceFolders: [],
+      textDocuments: [],
+      openTextDocument: vi.fn(),
+      createFileSystemWatcher: vi.fn(() => ({
+        onDidChange: event(),
+        onDidCreate: event(),
+        onDidDelete: event(),
+        dispose: () => undefined,
+      })),
+      onDidOpenTextDocument: event(),
+      onDidChangeTextDocument: event(),
+      onDidCloseTextDocument: event(),
+      onDidChangeConfiguration: event(),
+      onDidChangeWorkspaceFolders: event(),
     },
     Uri: {
-      file: (path: string) => ({ fsPath: path, path }),
+      file: (path: string) => ({ fsPath: path, path, scheme: 'file' }),
     },
+    languages: {
+      registerCodeActionsProvider: vi.fn(() => ({ dispose: () => undefined })),
+      createDiagnosticCollection: vi.fn(() => ({
+        set: vi.fn(),
+        delete: vi.fn(),
+        dispose: () => undefined,
+      })),
+    },
+    CodeAction: class {
+      constructor(public title: string, public kind: string) {}
+    },
+    CodeActionKind: { QuickFix: 'quickfix', RefactorRewrite: 'refactor.rewrite' },
+    Diagnostic: class {
+      constructor(public range: any, public message: string, public severity: number) {}
+    },
+    DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+    ViewColumn: { One: 1, Beside: -2 },
     Selection: class {},
     Position: class {},
-    Range: class {},
+    Range: class {
+      constructor(public start: any, public end: any) {}
+    },
   };
 });
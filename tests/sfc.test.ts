@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findTemplateCalls,
+  getScriptBlocks,
+  getScriptSourceText,
+} from '../src/sfc';
+
+const callTexts = (fileText: string, isSvelte: boolean, ...names: string[]) =>
+  findTemplateCalls(fileText, isSvelte, new Set(names)).map((c) => ({
+    text: fileText.slice(c.start, c.end),
+    argsText: c.argsText,
+  }));
+
+describe('findTemplateCalls', () => {
+  it('finds calls in Vue mustaches and directives but not in scripts', () => {
+    const vue = [
+      '<template>',
+      '  <p v-if="show(a(b), \'x, y\')">{{ show(1) }} {{ myshow(2) }}</p>',
+      '  <button @click="count++; show(3)">+</button>',
+      '  <li v-for="item in show(4)" :key="item">{{ item }}</li>',
+      '  <!-- {{ show(5) }} -->',
+      '</template>',
+      '<script>',
+      'export default { methods: { show(v) { return show(v); } } };',
+      '</script>',
+    ].join('\n');
+
+    expect(callTexts(vue, false, 'show')).toEqual([
+      { text: "show(a(b), 'x, y')", argsText: ['a(b)', "'x, y'"] },
+      { text: 'show(1)', argsText: ['1'] },
+      { text: 'show(3)', argsText: ['3'] },
+      { text: 'show(4)', argsText: ['4'] },
+    ]);
+  });
+
+  it('reads Vue mustaches to their end and reports member calls', () => {
+    const vue = [
+      '<template>',
+      "  <p>{{ show({ a: { b: 1 }}) }} {{ show('}}', 2) }}</p>",
+      '  <p>{{ api.show(3) }} {{ other(4) }}</p>',
+      '</template>',
+    ].join('\n');
+
+    expect(
+      findTemplateCalls(vue, false, new Set(['show'])).map((c) => [
+        vue.slice(c.start, c.end),
+        c.exprText,
+        c.isMemberCall,
+      ])
+    ).toEqual([
+      ['show({ a: { b: 1 }})', 'show', false],
+      ["show('}}', 2)", 'show', false],
+      ['api.show(3)', 'api.show', true],
+    ]);
+  });
+
+  it('finds calls in Svelte expressions, blocks and attributes', () => {
+    const svelte = [
+      '<script>',
+      '  const x = fmt(0);',
+      '</script>',
+      '{#each fmt(1) as row}',
+      '  <span title="a {fmt(2, "}")}" on:click={() => fmt(3)}>{fmt(row)}</span>',
+      '{/each}',
+      '<style>p { color: red; }</style>',
+    ].join('\n');
+
+    expect(callTexts(svelte, true, 'fmt').map((c) => c.text)).toEqual([
+      'fmt(1)',
+      'fmt(2, "}")',
+      'fmt(3)',
+      'fmt(row)',
+    ]);
+  });
+});
+
+describe('getScriptSourceText', () => {
+  it('keeps script blocks at their offsets and blanks the rest', () => {
+    const svelte =
+      '<script context="module">\n  export const a = 1;\n</script>\n' +
+      '<p>{a}</p>\n<script lang="ts">\n  let b: number = a;\n</script>\n';
+    const blocks = getScriptBlocks(svelte, true);
+    const result = getScriptSourceText(svelte, blocks);
+
+    expect(blocks.map((b) => b.isTypeScript)).toEqual([false, true]);
+    expect(result.length).toBe(svelte.length);
+    expect(result.indexOf('let b')).toBe(svelte.indexOf('let b'));
+    expect(result.replace(/\s+/g, ' ').trim()).toBe(
+      'export const a = 1; let b: number = a;'
+    );
+  });
+});
@@ -1,5 +1,20 @@
 import { describe, it, expect } from 'vitest';
-import { buildCallReplacement, buildTemplateCallReplacement } from '../src/text';
+import { Project, SyntaxKind } from 'ts-morph';
+import {
+  buildCallReplacement,
+  buildCandidateReplacement,
+  buildPositionalCallReplacement,
+  transformFunctionToPositional,
+  isSimpleValueText,
+  removeObjectVariableDestructureLine,
+  insertLineAfterStatement,
+  insertFirstBodyLine,
+  buildUnifiedDiff,
+  buildMinimalEdit,
+  buildTypeDeclarationText,
+  rewriteJsDocParamTags,
+  removeJsDocParamTags,
+} from '../src/text';
 
 describe('buildCallReplacement', () => {
   it('omits optional parameters when args are missing or undefined', () => {
@@ -34,26 +49,322 @@ describe('buildCallReplacement', () => {
 
     expect(result).toBe('foo({ firstName, lastName })');
   });
+
+  it('keeps positional arguments ahead of the object', () => {
+    const names = ['id', 'a', 'b'];
+    const optional = [false, true, true];
+
+    expect(
+      buildCallReplacement('foo', ['id', '1'], names, optional, [0])
+    ).toBe('foo(id, { a:1 })');
+    expect(buildCallReplacement('foo', ['id'], names, optional, [0])).toBe(
+      'foo(id)'
+    );
+  });
 });
 
-describe('buildTemplateCallReplacement', () => {
-  const source = 'foo(bar, baz)';
+describe('buildCandidateReplacement', () => {
+  it('keeps the this argument of .call and .apply calls', () => {
+    expect(
+      buildCandidateReplacement(
+        { exprText: 'greet.call', argsText: ['a', '1'], callForm: 'call', thisArgText: 'ctx' },
+        ['name', 'age']
+      )
+    ).toBe('greet.call(ctx, { name:a, age:1 })');
+    expect(
+      buildCandidateReplacement(
+        { exprText: 'greet.apply', argsText: ['a', '1'], callForm: 'apply', thisArgText: 'ctx' },
+        ['name', 'age']
+      )
+    ).toBe('greet.apply(ctx, [{ name:a, age:1 }])');
+  });
 
-  it('returns null when argument count exceeds parameter count', () => {
-    const result = buildTemplateCallReplacement(source, 0, ['bar'], [false]);
-    expect(result).toBeNull();
+  it('wraps an unfollowed bind in an adapter arrow', () => {
+    const result = buildCandidateReplacement(
+      { exprText: 'greet', argsText: ["'Ann'"], callForm: 'bind-adapter', thisArgText: 'null' },
+      ['name', 'age']
+    );
+
+    expect(result).toBe("(age) => greet.call(null, { name:'Ann', age })");
   });
 
-  it('builds replacement and omits optional properties', () => {
-    const template = 'foo(name)';
-    const result = buildTemplateCallReplacement(
-      template,
-      0,
-      ['name', 'val'],
-      [false, true]
+  it('evaluates bound values other than literals once', () => {
+    const result = buildCandidateReplacement(
+      {
+        exprText: 'greet',
+        argsText: ['getName()', '2'],
+        callForm: 'bind-adapter',
+        thisArgText: 'ctx',
+        adapterParamsText: ['name: string', 'age: number', 'tag?: string'],
+      },
+      ['name', 'age', 'tag']
+    );
+
+    expect(result).toBe(
+      '((boundThis, name) => (tag?: string) => greet.call(boundThis, { name, age:2, tag }))(ctx, getName())'
+    );
+  });
+
+  it('wraps a function passed as a value in an adapter arrow', () => {
+    const result = buildCandidateReplacement(
+      { exprText: 'formatRow', argsText: null, callForm: 'value-adapter', propertyNameText: 'formatRow' },
+      ['row', 'i']
     );
 
-    expect(result).not.toBeNull();
-    expect(result?.replacement).toBe('foo({ name })');
+    expect(result).toBe('formatRow: (row, i) => formatRow({ row, i })');
+  });
+});
+
+describe('buildPositionalCallReplacement', () => {
+  it('orders object properties by parameter position', () => {
+    const result = buildPositionalCallReplacement(
+      'foo',
+      [
+        { name: 'b', valueText: 'x' },
+        { name: 'a', valueText: 'a' },
+      ],
+      undefined,
+      ['a', 'b']
+    );
+
+    expect(result).toBe('foo(a, x)');
+  });
+
+  it('fills gaps with undefined and drops missing trailing params', () => {
+    const result = buildPositionalCallReplacement(
+      'foo',
+      [{ name: 'b', valueText: '2' }],
+      undefined,
+      ['a', 'b', 'c']
+    );
+
+    expect(result).toBe('foo(undefined, 2)');
+  });
+
+  it('reads properties from a non-literal object argument', () => {
+    expect(
+      buildPositionalCallReplacement('foo', null, 'opts', ['a', 'b'])
+    ).toBe('foo(opts.a, opts.b)');
+    expect(
+      buildPositionalCallReplacement('foo', null, 'getOpts()', ['a'])
+    ).toBe('foo((getOpts()).a)');
+  });
+});
+
+describe('transformFunctionToPositional', () => {
+  it('replaces the parameter list found by its nodes', () => {
+    const sf = new Project({ useInMemoryFileSystem: true }).createSourceFile(
+      'a.ts',
+      "let x;\nfunction f<T extends (v: T) => void>({ a = ')' }: { a?: string }) { g(a); }"
+    );
+    const fn = sf.getFirstDescendantByKindOrThrow(SyntaxKind.FunctionDeclaration);
+
+    expect(
+      transformFunctionToPositional(
+        fn.getText(),
+        fn.getParameters(),
+        fn.getStart(),
+        "a: string = ')'"
+      )
+    ).toBe("function f<T extends (v: T) => void>(a: string = ')') { g(a); }");
+  });
+});
+
+describe('isSimpleValueText', () => {
+  it('accepts names, member chains and literals only', () => {
+    expect(
+      ['a', 'opts.user?.name', '-1.5', "'x'", 'null'].map(isSimpleValueText)
+    ).toEqual([true, true, true, true, true]);
+    expect(['f()', 'a[0]', 'a + b', '`x`'].map(isSimpleValueText)).toEqual([
+      false,
+      false,
+      false,
+      false,
+    ]);
+  });
+});
+
+describe('removeObjectVariableDestructureLine', () => {
+  it('removes the destructuring line with its indentation', () => {
+    const fnText =
+      'function foo($par$) {\n  let { a, b = 2 } = $par$;\n  return a + b;\n}';
+    const result = removeObjectVariableDestructureLine(
+      fnText,
+      'let { a, b = 2 } = $par$;'
+    );
+
+    expect(result).toBe('function foo($par$) {\n  return a + b;\n}');
+  });
+});
+
+describe('insertFirstBodyLine', () => {
+  it('splits a one-line body, indented below the line of the function', () => {
+    const result = insertFirstBodyLine(
+      'add(x: number) { return x; }',
+      'let a = x;',
+      '  '
+    );
+
+    expect(result).toBe('add(x: number) {\n    let a = x;\n    return x;\n  }');
+  });
+
+  it('uses the indentation of the brace line after multi-line parameters', () => {
+    const result = insertFirstBodyLine(
+      'function f(\n\tx: number\n) {}',
+      'let a = x;',
+      '\t'
+    );
+
+    expect(result).toBe('function f(\n\tx: number\n) {\n\tlet a = x;\n}');
+  });
+});
+
+describe('insertLineAfterStatement', () => {
+  it('inserts after the anchor statement with its indentation', () => {
+    const fnText = 'constructor() {\n    super(a);\n    run();\n  }';
+    const result = insertLineAfterStatement(
+      fnText,
+      'super(a);',
+      'this.a = a;'
+    );
+
+    expect(result).toBe(
+      'constructor() {\n    super(a);\n    this.a = a;\n    run();\n  }'
+    );
+  });
+});
+
+describe('buildUnifiedDiff', () => {
+  it('merges nearby edits into one hunk with context lines', () => {
+    const original = ['a', 'b', 'foo(1, 2)', 'c', 'foo(3)', 'd', 'e', 'f', 'g', 'h'].join('\n') + '\n';
+    const first = original.indexOf('foo(1, 2)');
+    const second = original.indexOf('foo(3)');
+    const result = buildUnifiedDiff('src/a.ts', original, [
+      { start: second, end: second + 6, newText: 'foo({ x:3 })' },
+      { start: first, end: first + 9, newText: 'foo({ x:1, y:2 })' },
+    ]);
+
+    expect(result).toBe(
+      [
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,8 +1,8 @@',
+        ' a',
+        ' b',
+        '-foo(1, 2)',
+        '+foo({ x:1, y:2 })',
+        ' c',
+        '-foo(3)',
+        '+foo({ x:3 })',
+        ' d',
+        ' e',
+        ' f',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('buildMinimalEdit', () => {
+  it('replaces only the changed span', () => {
+    const original = 'f(a, b);\ng(c);\nf(d, e);\n';
+    const updated = 'f({ a, b });\ng(c);\nf({ a: d, b: e });\n';
+    const edit = buildMinimalEdit(original, updated);
+    expect(edit).toEqual({
+      start: 2,
+      end: 21,
+      newText: '{ a, b });\ng(c);\nf({ a: d, b: e }',
+    });
+    const applied =
+      original.slice(0, edit!.start) + edit!.newText + original.slice(edit!.end);
+    expect(applied).toBe(updated);
+  });
+
+  it('returns null for identical text', () => {
+    expect(buildMinimalEdit('same', 'same')).toBeNull();
+  });
+});
+
+describe('buildTypeDeclarationText', () => {
+  it('declares one member per line with the given indent', () => {
+    const members = [
+      { name: 'name', typeText: 'string', isOptional: false },
+      { name: 'age', typeText: 'number', isOptional: true },
+    ];
+
+    expect(
+      buildTypeDeclarationText('Params', members, 'interface', true, '\n', '')
+    ).toBe('export interface Params {\n  name: string;\n  age?: number;\n}');
+    expect(
+      buildTypeDeclarationText('Params', members, 'type', false, '\n', '  ')
+    ).toBe('type Params = {\n    name: string;\n    age?: number;\n  };');
+  });
+
+  it('puts each description in a doc comment above its member', () => {
+    const result = buildTypeDeclarationText(
+      'Params',
+      [{ name: 'id', typeText: 'number', isOptional: false, description: 'Row id' }],
+      'interface',
+      false,
+      '\n',
+      ''
+    );
+
+    expect(result).toBe('interface Params {\n  /** Row id */\n  id: number;\n}');
+  });
+});
+
+describe('rewriteJsDocParamTags', () => {
+  it('moves parameter tags under the object with types and defaults', () => {
+    const doc = [
+      '/**',
+      ' * Creates a user.',
+      ' * @param {string} name - The name',
+      ' * @param {number} [age=22] - Age in years',
+      ' * @returns {Object}',
+      ' */',
+    ].join('\n');
+    const result = rewriteJsDocParamTags(doc, 'params', [
+      { name: 'name', defaultText: null, isOptional: false },
+      { name: 'age', defaultText: '22', isOptional: true },
+    ]);
+
+    expect(result).toBe(
+      [
+        '/**',
+        ' * Creates a user.',
+        ' * @param {Object} params',
+        ' * @param {string} params.name - The name',
+        ' * @param {number} [params.age=22] - Age in years',
+        ' * @returns {Object}',
+        ' */',
+      ].join('\n')
+    );
+  });
+});
+
+describe('removeJsDocParamTags', () => {
+  it('drops the tags with their description lines', () => {
+    const doc = [
+      '/**',
+      ' * Resizes.',
+      ' * @param w - Width',
+      ' *   in pixels',
+      ' * @param scale - Kept',
+      ' */',
+    ].join('\n');
+
+    expect(removeJsDocParamTags(doc, ['w'])).toBe(
+      ['/**', ' * Resizes.', ' * @param scale - Kept', ' */'].join('\n')
+    );
+    expect(removeJsDocParamTags(doc, ['w', 'scale'])).toBe(
+      ['/**', ' * Resizes.', ' */'].join('\n')
+    );
+    expect(removeJsDocParamTags(doc, ['h'])).toBeNull();
+  });
+
+  it('empties a block left without content', () => {
+    const doc = ['/**', ' * @param w - Width', ' */'].join('\n');
+    expect(removeJsDocParamTags(doc, ['w'])).toBe('');
   });
 });
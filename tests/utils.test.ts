@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { selectWorkspaceFolders } from '../src/utils';
+import { mockSettings } from './helpers';
+
+const folder = (name: string) => ({ name, uri: { fsPath: `/ws/${name}` } });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('selectWorkspaceFolders', () => {
+  const useFolders = (mode: string | undefined) => {
+    vi.spyOn(vscode.workspace, 'workspaceFolders', 'get').mockReturnValue([
+      folder('api'),
+      folder('web'),
+      folder('docs'),
+    ] as any);
+    mockSettings((key) => (key === '9.workspaceFolders' ? mode : undefined));
+  };
+
+  it('scans every folder by default, starting with the current one', async () => {
+    useFolders(undefined);
+
+    expect(await selectWorkspaceFolders('/ws/web')).toEqual([
+      '/ws/web',
+      '/ws/api',
+      '/ws/docs',
+    ]);
+  });
+
+  it('scans only the current folder when set to current', async () => {
+    useFolders('current');
+
+    expect(await selectWorkspaceFolders('/ws/web')).toEqual(['/ws/web']);
+  });
+
+  it('adds the picked folders and cancels with the pick', async () => {
+    useFolders('pick');
+    const showQuickPick = vi.mocked(vscode.window.showQuickPick);
+    showQuickPick.mockResolvedValueOnce([
+      { label: 'docs', description: '/ws/docs' },
+    ] as any);
+
+    expect(await selectWorkspaceFolders('/ws/web')).toEqual([
+      '/ws/web',
+      '/ws/docs',
+    ]);
+
+    showQuickPick.mockResolvedValueOnce(undefined);
+    expect(await selectWorkspaceFolders('/ws/web')).toBeNull();
+  });
+});